@@ -0,0 +1,248 @@
+/**
+ * Idiomatic TypeScript HTTP Server
+ *
+ * Mounts the UserController on an Express application.
+ *
+ * Note that each route must forward to the right controller method by hand,
+ * and nothing checks that the controller's dependencies were wired first.
+ *
+ * On SIGINT or SIGTERM the server stops accepting connections, waits for
+ * in-flight requests until the shutdown timeout and then closes the
+ * database.
+ */
+
+import express, { ErrorRequestHandler } from "express";
+import { Server } from "node:http";
+import { randomUUID } from "node:crypto";
+import { createApplication, HealthController, loadConfig, Logger, Tracer, UserController, withLogContext } from "./user-service";
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * Run a route handler with request-scoped log context, inside a server span.
+ *
+ * PROBLEM: Every route has to remember to be wrapped - a handler registered
+ * without this logs with no request id and is missing from traces, and
+ * nothing flags it.
+ */
+function withRequestContext(
+  tracer: Tracer,
+  handler: express.RequestHandler<Record<string, string>>
+): express.RequestHandler<Record<string, string>> {
+  return (req, res, next) => {
+    const route = `${req.method} ${req.route.path}`;
+    return withLogContext(
+      {
+        requestId: randomUUID(),
+        route,
+        ...(req.params.id === undefined ? {} : { userId: req.params.id }),
+      },
+      () =>
+        tracer.startActiveSpan(
+          route,
+          { kind: "server", attributes: { "http.request.method": req.method, "http.route": req.route.path } },
+          async (span) => {
+            // Express types handlers as returning void, but the controllers
+            // return a promise that settles once the response is sent
+            await handler(req, res, next);
+            span.setAttribute("http.response.status_code", res.statusCode);
+          }
+        )
+    );
+  };
+}
+
+function createRouter(
+  userController: UserController,
+  healthController: HealthController,
+  tracer: Tracer
+): express.Router {
+  const router = express.Router();
+
+  // The file is read as text whatever its content type; express.text()
+  // otherwise stops at 100kb. Registered ahead of express.json(), which
+  // would claim an application/json upload first
+  router.post(
+    "/users/import",
+    express.text({ type: () => true, limit: "10mb" }),
+    withRequestContext(tracer, (req, res) => userController.importUsers(req, res))
+  );
+  router.use(express.json());
+
+  router.get("/users", withRequestContext(tracer, (req, res) => userController.listUsers(req, res)));
+  // Must come before /users/:id, which would otherwise match "export" as an id
+  router.get("/users/export", withRequestContext(tracer, (req, res) => userController.exportUsers(req, res)));
+  router.get("/users/:id", withRequestContext(tracer, (req, res) => userController.getUser(req, res)));
+  router.post("/users", withRequestContext(tracer, (req, res) => userController.createUser(req, res)));
+  router.patch("/users/:id/email", withRequestContext(tracer, (req, res) => userController.updateEmail(req, res)));
+  router.patch("/users/:id/name", withRequestContext(tracer, (req, res) => userController.renameUser(req, res)));
+  router.put("/users/:id", withRequestContext(tracer, (req, res) => userController.updateUser(req, res)));
+  router.delete("/users/:id", withRequestContext(tracer, (req, res) => userController.deleteUser(req, res)));
+  router.get("/health", withRequestContext(tracer, (req, res) => healthController.getHealth(req, res)));
+  router.get("/healthz", withRequestContext(tracer, (req, res) => healthController.getHealthz(req, res)));
+  router.get("/readyz", withRequestContext(tracer, (req, res) => healthController.getReadyz(req, res)));
+
+  return router;
+}
+
+/**
+ * Reject malformed JSON with the same response shape as body validation,
+ * and oversized bodies with 413.
+ *
+ * PROBLEM: The body parsers report failures out-of-band, through the error
+ * middleware chain, instead of to the handler that needed the body.
+ */
+const bodyParserErrorHandler: ErrorRequestHandler = (error, _req, res, next) => {
+  if (error?.type === "entity.too.large") {
+    res.status(413).json({ error: "Request body is too large", maxBytes: error.limit });
+    return;
+  }
+  if (error?.type === "entity.parse.failed") {
+    const message = "Request body is not valid JSON";
+    res.status(400).json({
+      error: message,
+      field: "body",
+      errors: [{ field: "body", message }],
+    });
+    return;
+  }
+  next(error);
+};
+
+// ============================================================================
+// Graceful Shutdown
+// ============================================================================
+
+/**
+ * Counts the requests being handled, and turns new ones away once draining.
+ *
+ * PROBLEM: The count is only right if this middleware runs before every
+ * route. A route registered ahead of it is neither counted nor turned away.
+ */
+class InFlightRequests {
+  private pending = 0;
+  private draining = false;
+  private onIdle: (() => void) | null = null;
+
+  readonly middleware: express.RequestHandler = (_req, res, next) => {
+    if (this.draining) {
+      res.set("Connection", "close").status(503).json({ error: "Server is shutting down" });
+      return;
+    }
+
+    this.pending++;
+    // Emitted once the response is sent or the connection is lost
+    res.on("close", () => {
+      this.pending--;
+      if (this.pending === 0) {
+        this.onIdle?.();
+      }
+    });
+    next();
+  };
+
+  get size(): number {
+    return this.pending;
+  }
+
+  /**
+   * Turn away new requests, then resolve true once none are pending, or
+   * false if the deadline passes first.
+   */
+  drain(timeoutMs: number): Promise<boolean> {
+    this.draining = true;
+    if (this.pending === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.onIdle = null;
+        resolve(false);
+      }, timeoutMs);
+      this.onIdle = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+    });
+  }
+}
+
+/**
+ * On SIGINT or SIGTERM, stop accepting connections and drain in-flight
+ * requests, then close the remaining connections and release resources.
+ *
+ * PROBLEM: Promises cannot be cancelled. Past the deadline the connections
+ * are destroyed, but the handlers behind them keep running and may reach a
+ * database that has already been closed.
+ */
+function closeOnSignal(
+  server: Server,
+  requests: InFlightRequests,
+  close: () => void,
+  timeoutMs: number,
+  logger: Logger
+): void {
+  let closing = false;
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (closing) {
+      return;
+    }
+    closing = true;
+    logger.info("Draining in-flight requests", { signal, pending: requests.size, deadlineMs: timeoutMs });
+
+    // Refuse new connections; keep-alive connections are turned away by
+    // the middleware until they close
+    server.close();
+    server.closeIdleConnections();
+
+    if (!(await requests.drain(timeoutMs))) {
+      logger.error("Shutdown deadline passed, dropping in-flight requests", undefined, { remaining: requests.size });
+    }
+    server.closeAllConnections();
+    close();
+  };
+
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+// ============================================================================
+// Server Startup
+// ============================================================================
+
+function startServer(port: number): Server {
+  // Throws a ConfigError listing every invalid setting
+  const { userController, healthController, tracer, metrics, logger, config, close } = createApplication(loadConfig());
+  const requests = new InFlightRequests();
+
+  const app = express();
+  app.use((_req, res, next) => {
+    res.on("finish", () => metrics.httpResponses.inc({ status: String(res.statusCode) }));
+    next();
+  });
+  app.use(requests.middleware);
+  app.get("/metrics", (_req, res) => {
+    res.type("text/plain; version=0.0.4; charset=utf-8").send(metrics.render());
+  });
+  app.use(createRouter(userController, healthController, tracer));
+  app.use(bodyParserErrorHandler);
+
+  const server = app.listen(port, () => {
+    logger.info("Listening", { url: `http://localhost:${port}` });
+  });
+  closeOnSignal(server, requests, close, config.shutdownTimeoutMs, logger);
+  return server;
+}
+
+// To run: npx tsx server.ts
+startServer(3000);
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { createRouter, InFlightRequests, startServer };
@@ -7,6 +7,11 @@
  * Note the implicit effects and error handling challenges.
  */
 
+import Sqlite from "better-sqlite3";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { appendFileSync, readFileSync } from "node:fs";
+
 // ============================================================================
 // Domain Types
 // ============================================================================
@@ -23,71 +28,1506 @@ interface CreateUserInput {
   name: string;
 }
 
-interface UpdateUserInput {
-  email?: string;
-  name?: string;
-}
+interface UpdateUserInput {
+  email?: string;
+  name?: string;
+}
+
+/**
+ * Position just after the last user of a page, in (createdAt, id) order.
+ */
+interface UserCursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Filters and page bounds for UserRepository.list. Both created-at bounds
+ * are exclusive.
+ */
+interface ListUsersOptions {
+  after?: UserCursor;
+  limit: number;
+  /** Matches the start of the name or the email, ignoring ASCII case */
+  prefix?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+/**
+ * One page of users, and where the next page starts if there is one.
+ */
+interface UserPage {
+  users: User[];
+  nextCursor: UserCursor | null;
+}
+
+type FileFormat = "ndjson" | "csv";
+
+/**
+ * Why an import record was left out, although nothing was wrong with it.
+ */
+type ImportSkipReason = DuplicateRowError | EmailAlreadyInUseError;
+
+/**
+ * Why an import record could not be imported.
+ */
+type ImportFailureReason = MalformedRowError | ValidationError | ValidationErrors | DatabaseError | TimeoutError;
+
+type ImportRowResult =
+  | { status: "created"; line: number; userId: string }
+  | { status: "skipped"; line: number; reason: ImportSkipReason }
+  | { status: "failed"; line: number; reason: ImportFailureReason };
+
+interface ImportSummary {
+  total: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  durationMs: number;
+}
+
+interface ImportReport {
+  /** One result per record, in file order */
+  rows: ImportRowResult[];
+  summary: ImportSummary;
+}
+
+interface ImportOptions {
+  /** Records inserted per transaction (default: 100) */
+  batchSize?: number;
+  /** Maximum number of batches in flight (default: DEFAULT_CONFIG.batchConcurrency) */
+  concurrency?: number;
+}
+
+// ============================================================================
+// Error Types (not tracked by type system in function signatures)
+// ============================================================================
+
+class UserNotFoundError extends Error {
+  constructor(public readonly userId: string) {
+    super(`User not found: ${userId}`);
+    this.name = "UserNotFoundError";
+  }
+}
+
+class DatabaseError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "DatabaseError";
+  }
+}
+
+/**
+ * A write was rejected by a unique constraint in the database.
+ */
+class UniqueConstraintError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "UniqueConstraintError";
+  }
+}
+
+/**
+ * A single problem with one field of an input.
+ */
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+class ValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly field?: string,
+    public readonly fieldErrors: FieldError[] = field ? [{ field, message }] : []
+  ) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Every validation failure from a single input, reported together.
+ */
+class ValidationErrors extends Error {
+  constructor(public readonly errors: ValidationError[]) {
+    super("Validation failed");
+    this.name = "ValidationErrors";
+  }
+}
+
+/**
+ * Another user already owns the requested email address.
+ */
+class EmailAlreadyInUseError extends Error {
+  constructor(public readonly email: string) {
+    super(`Email already in use: ${email}`);
+    this.name = "EmailAlreadyInUseError";
+  }
+}
+
+class CacheError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "CacheError";
+  }
+}
+
+class DecodeError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "DecodeError";
+  }
+}
+
+/**
+ * The configuration could not be loaded, listing every problem found.
+ */
+class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n  ${problems.join("\n  ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * A service call did not finish within its configured timeout.
+ */
+class TimeoutError extends Error {
+  constructor(
+    public readonly operation: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`${operation} timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * A record of an import file that could not be read as a user.
+ */
+class MalformedRowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MalformedRowError";
+  }
+}
+
+/**
+ * A record of an import file repeats an email from an earlier record.
+ */
+class DuplicateRowError extends Error {
+  constructor(
+    public readonly email: string,
+    public readonly firstLine: number
+  ) {
+    super(`Same email as line ${firstLine}`);
+    this.name = "DuplicateRowError";
+  }
+}
+
+// ============================================================================
+// Runtime Decoding (hand-written, kept in sync with the interfaces manually)
+// ============================================================================
+
+/**
+ * Decode a raw users row into a domain User.
+ *
+ * PROBLEM: These checks duplicate the User interface. Adding a field means
+ * updating both, and the compiler cannot tell when they drift apart.
+ */
+function decodeUserRow(row: unknown): User {
+  if (typeof row !== "object" || row === null) {
+    throw new DecodeError("Invalid user row: expected an object", row);
+  }
+
+  const { id, email, name, created_at } = row as Record<string, unknown>;
+  const createdAt = typeof created_at === "string" ? new Date(created_at) : null;
+
+  if (
+    typeof id !== "string" ||
+    typeof email !== "string" ||
+    typeof name !== "string" ||
+    createdAt === null ||
+    Number.isNaN(createdAt.getTime())
+  ) {
+    throw new DecodeError("Invalid user row", row);
+  }
+
+  return { id, email, name, createdAt };
+}
+
+/**
+ * Read string fields from an unknown request body, or from one record of an
+ * import file.
+ *
+ * PROBLEM: Every field check is written by hand, and nothing ties the list
+ * of field names to the interface the caller casts the result to.
+ */
+function readStringFields<K extends string>(
+  body: unknown,
+  fields: readonly K[],
+  source: "body" | "record" = "body"
+): Record<K, string> {
+  const message = source === "body" ? "Invalid request body" : "Invalid record";
+  if (typeof body !== "object" || body === null) {
+    throw new ValidationError(message, undefined, [
+      { field: source, message: "Expected an object" },
+    ]);
+  }
+
+  const record = body as Record<string, unknown>;
+  const fieldErrors: FieldError[] = [];
+
+  for (const field of fields) {
+    if (record[field] === undefined) {
+      fieldErrors.push({ field, message: "is missing" });
+    } else if (typeof record[field] !== "string") {
+      fieldErrors.push({ field, message: "Expected string" });
+    }
+  }
+
+  if (fieldErrors.length > 0) {
+    throw new ValidationError(message, undefined, fieldErrors);
+  }
+
+  return record as Record<K, string>;
+}
+
+function parseCreateUserInput(body: unknown): CreateUserInput {
+  const { email, name } = readStringFields(body, ["email", "name"]);
+  return { email, name };
+}
+
+function parseChangeEmailInput(body: unknown): { email: string } {
+  const { email } = readStringFields(body, ["email"]);
+  return { email };
+}
+
+function parseRenameUserInput(body: unknown): { name: string } {
+  const { name } = readStringFields(body, ["name"]);
+  return { name };
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Encode a cursor for clients as base64url JSON.
+ */
+function encodeCursor(cursor: UserCursor): string {
+  return Buffer.from(
+    JSON.stringify({ createdAt: cursor.createdAt.toISOString(), id: cursor.id })
+  ).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor, or return null if it is not one.
+ */
+function decodeCursor(text: string): UserCursor | null {
+  try {
+    const { createdAt, id } = JSON.parse(Buffer.from(text, "base64url").toString("utf8"));
+    const date = typeof createdAt === "string" ? new Date(createdAt) : null;
+    if (typeof id !== "string" || date === null || Number.isNaN(date.getTime())) {
+      return null;
+    }
+    return { createdAt: date, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the query string of GET /users.
+ *
+ * PROBLEM: Depending on the query parser, a value may be a string, an array
+ * or a nested object. Each parameter is checked and converted by hand, and
+ * encodeCursor and decodeCursor must be kept in step.
+ */
+function parseListUsersQuery(query: Record<string, unknown>): ListUsersOptions {
+  const fieldErrors: FieldError[] = [];
+
+  const text = (field: string): string | undefined => {
+    const value = query[field];
+    if (value !== undefined && typeof value !== "string") {
+      fieldErrors.push({ field, message: "Expected string" });
+      return undefined;
+    }
+    return value;
+  };
+
+  const date = (field: string): Date | undefined => {
+    const value = text(field);
+    if (value === undefined) {
+      return undefined;
+    }
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+      fieldErrors.push({ field, message: "Expected a valid date" });
+      return undefined;
+    }
+    return parsed;
+  };
+
+  const options: ListUsersOptions = {
+    limit: DEFAULT_PAGE_SIZE,
+    createdAfter: date("createdAfter"),
+    createdBefore: date("createdBefore"),
+  };
+
+  const cursor = text("cursor");
+  if (cursor !== undefined) {
+    const after = decodeCursor(cursor);
+    if (after === null) {
+      fieldErrors.push({ field: "cursor", message: "Expected a cursor returned by a previous page" });
+    } else {
+      options.after = after;
+    }
+  }
+
+  const limit = text("limit");
+  if (limit !== undefined) {
+    const value = limit.trim() === "" ? NaN : Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PAGE_SIZE) {
+      fieldErrors.push({ field: "limit", message: `Expected an integer between 1 and ${MAX_PAGE_SIZE}` });
+    } else {
+      options.limit = value;
+    }
+  }
+
+  const q = text("q");
+  if (q === "") {
+    fieldErrors.push({ field: "q", message: "Expected a non-empty string" });
+  } else {
+    options.prefix = q;
+  }
+
+  if (fieldErrors.length > 0) {
+    throw new ValidationError("Invalid query parameters", undefined, fieldErrors);
+  }
+  return options;
+}
+
+/**
+ * Read the `format` parameter of GET /users/export and POST /users/import,
+ * defaulting to NDJSON.
+ */
+function parseFileFormat(query: Record<string, unknown>): FileFormat {
+  const { format = "ndjson" } = query;
+  if (format !== "ndjson" && format !== "csv") {
+    throw new ValidationError("Invalid query parameters", undefined, [
+      { field: "format", message: 'Expected "ndjson" or "csv"' },
+    ]);
+  }
+  return format;
+}
+
+/**
+ * One record of an import file and the line it starts on, or why it could
+ * not be read.
+ */
+type ImportRecord<T = unknown> =
+  | { line: number; fields: T }
+  | { line: number; error: MalformedRowError };
+
+const DEFAULT_IMPORT_BATCH_SIZE = 100;
+
+/**
+ * Split CSV text into records (RFC 4180). Quoted fields may contain commas,
+ * doubled quotes and line breaks, so a record may span several lines.
+ */
+function parseCsvRecords(text: string): ImportRecord<string[]>[] {
+  const records: ImportRecord<string[]>[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Blank lines carry no record
+    if (fields.length > 1 || fields[0] !== "") {
+      records.push({ line: start, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    records.push({ line: start, error: new MalformedRowError("Unterminated quoted field") });
+  } else if (field !== "" || fields.length > 0) {
+    endRecord();
+  }
+  return records;
+}
+
+/**
+ * Read the records of an import file. A CSV file must start with a header
+ * naming at least the email and name columns; other columns are ignored.
+ */
+function parseImportFile(format: FileFormat, text: string): ImportRecord[] {
+  if (format === "ndjson") {
+    const records: ImportRecord[] = [];
+    text.split(/\r?\n/).forEach((content, index) => {
+      if (content.trim() === "") {
+        return;
+      }
+      try {
+        records.push({ line: index + 1, fields: JSON.parse(content) as unknown });
+      } catch {
+        records.push({ line: index + 1, error: new MalformedRowError("Line is not valid JSON") });
+      }
+    });
+    return records;
+  }
+
+  const [header, ...rows] = parseCsvRecords(text);
+  const columns = header !== undefined && "fields" in header ? header.fields : [];
+  const emailColumn = columns.indexOf("email");
+  const nameColumn = columns.indexOf("name");
+  if (emailColumn === -1 || nameColumn === -1) {
+    throw new ValidationError("CSV header must name the email and name columns", "body");
+  }
+
+  return rows.map((record): ImportRecord => {
+    if ("error" in record) {
+      return record;
+    }
+    const { line, fields } = record;
+    return fields.length === columns.length
+      ? { line, fields: { email: fields[emailColumn], name: fields[nameColumn] } }
+      : { line, error: new MalformedRowError(`Expected ${columns.length} fields, found ${fields.length}`) };
+  });
+}
+
+function parseImportRecord(fields: unknown): CreateUserInput {
+  const { email, name } = readStringFields(fields, ["email", "name"], "record");
+  return { email, name };
+}
+
+// ============================================================================
+// Infrastructure Interfaces (Dependencies not visible in type signatures)
+// ============================================================================
+
+interface Database {
+  query<T>(sql: string, params: unknown[]): Promise<T[]>;
+  /** May reject with UniqueConstraintError - only this comment says so. */
+  execute(sql: string, params: unknown[]): Promise<void>;
+  /** Commits if the callback resolves, rolls back if it rejects. */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+  /** True when called from inside a transaction() callback. */
+  inTransaction(): boolean;
+  /** Yields the rows of a query as they are read, rather than all at once. */
+  stream<T>(sql: string, params: unknown[]): AsyncIterable<T>;
+}
+
+interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+}
+
+interface Cache {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  stats(): CacheStats;
+}
+
+interface Logger {
+  info(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, error?: unknown, meta?: Record<string, unknown>): void;
+  debug(message: string, meta?: Record<string, unknown>): void;
+}
+
+// ============================================================================
+// Infrastructure Implementations
+// ============================================================================
+
+/**
+ * Schema for the users table assumed by the repository queries.
+ */
+const USERS_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id         TEXT PRIMARY KEY,
+    email      TEXT NOT NULL,
+    name       TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS users_email_unique ON users (email);
+  CREATE INDEX IF NOT EXISTS users_created_at ON users (created_at, id);
+`;
+
+/**
+ * SQLite-backed Database implementation.
+ *
+ * PROBLEM: The connection is opened in the constructor and must be closed
+ * by whoever owns the instance. Nothing enforces that close() is called.
+ */
+class SqliteDatabase implements Database {
+  private readonly connection: Sqlite.Database;
+  private readonly transactionScope = new AsyncLocalStorage<boolean>();
+  private lock: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filename: string) {
+    this.connection = new Sqlite(filename);
+    // Write-ahead logging lets streams read on their own connections while
+    // this one writes
+    this.connection.pragma("journal_mode = WAL");
+    this.connection.exec(USERS_TABLE_SCHEMA);
+  }
+
+  async query<T>(sql: string, params: unknown[]): Promise<T[]> {
+    return this.exclusive(async () =>
+      this.connection.prepare(sql).all(...params.map(toSqlParam)) as T[]
+    );
+  }
+
+  async execute(sql: string, params: unknown[]): Promise<void> {
+    return this.exclusive(async () => {
+      try {
+        this.connection.prepare(sql).run(...params.map(toSqlParam));
+      } catch (error) {
+        if (error instanceof Sqlite.SqliteError && error.code === "SQLITE_CONSTRAINT_UNIQUE") {
+          throw new UniqueConstraintError(error.message, error);
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Run a callback inside BEGIN/COMMIT, rolling back if it rejects.
+   *
+   * PROBLEM: A caller that stops waiting (e.g. after a request timeout)
+   * cannot cancel the callback - the transaction stays open until it settles.
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    // A nested transaction simply joins the outer one
+    if (this.transactionScope.getStore()) {
+      return fn();
+    }
+
+    return this.exclusive(() =>
+      this.transactionScope.run(true, async () => {
+        this.run("BEGIN IMMEDIATE");
+        try {
+          const result = await fn();
+          this.run("COMMIT");
+          return result;
+        } catch (error) {
+          // A failed rollback must not hide the error that caused it
+          try {
+            if (this.connection.inTransaction) {
+              this.connection.exec("ROLLBACK");
+            }
+          } catch (rollbackError) {
+            console.error("Failed to roll back transaction", rollbackError);
+          }
+          throw error;
+        }
+      })
+    );
+  }
+
+  /**
+   * Read a query's rows one at a time. A stream may stay open as long as its
+   * consumer takes, so it reads through its own read-only connection
+   * instead of holding the lock.
+   *
+   * PROBLEM: The connection is closed when the consumer finishes or breaks
+   * out of its loop. An iterator that is dropped part way without return()
+   * being called keeps it open.
+   */
+  async *stream<T>(sql: string, params: unknown[]): AsyncGenerator<T> {
+    const reader = new Sqlite(this.filename, { readonly: true, fileMustExist: true });
+    try {
+      for (const row of reader.prepare(sql).iterate(...params.map(toSqlParam))) {
+        yield row as T;
+      }
+    } finally {
+      reader.close();
+    }
+  }
+
+  inTransaction(): boolean {
+    return this.transactionScope.getStore() === true;
+  }
+
+  close(): void {
+    this.connection.close();
+  }
+
+  /**
+   * All callers share one connection, so statements queue behind any open
+   * transaction. Callers inside that transaction are recognized through
+   * AsyncLocalStorage and skip the queue.
+   */
+  private async exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return fn();
+    }
+
+    const previous = this.lock;
+    let release!: () => void;
+    this.lock = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  private run(sql: string): void {
+    try {
+      this.connection.exec(sql);
+    } catch (error) {
+      throw new DatabaseError(`${sql} failed`, error);
+    }
+  }
+}
+
+/**
+ * In-process Cache with per-entry expiry and LRU eviction.
+ *
+ * PROBLEM: Tests can only control expiry because the clock is threaded in
+ * by hand as a constructor option; every time-dependent class needs the same.
+ *
+ * A Map iterates in insertion order, so re-inserting an entry on every hit
+ * keeps the least recently used entry first in line for eviction.
+ */
+class MemoryCache implements Cache {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly options: {
+      capacity: number;
+      defaultTtlSeconds?: number;
+      now?: () => number;
+    }
+  ) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+
+    if (entry === undefined || entry.expiresAt <= this.now()) {
+      this.misses++;
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds = this.options.defaultTtlSeconds): Promise<void> {
+    const expiresAt = ttlSeconds === undefined ? Infinity : this.now() + ttlSeconds * 1000;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.options.capacity) break;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  stats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+    };
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
+
+/**
+ * Per-operation timeouts, in milliseconds.
+ */
+interface DatabaseTimeouts {
+  query: number;
+  execute: number;
+}
+
+interface CacheTimeouts {
+  get: number;
+  set: number;
+  delete: number;
+}
+
+const DEFAULT_DATABASE_TIMEOUTS: DatabaseTimeouts = { query: 5_000, execute: 5_000 };
+
+// The cache is an optimisation, so it gets far less time than the database
+const DEFAULT_CACHE_TIMEOUTS: CacheTimeouts = { get: 100, set: 100, delete: 100 };
+
+/**
+ * Reject with a TimeoutError if a promise takes longer than `timeoutMs`.
+ *
+ * PROBLEM: This only stops waiting. The operation itself keeps running -
+ * a timed-out statement still queued for the connection will execute later,
+ * and a timed-out write may still succeed.
+ */
+async function withTimeout<T>(operation: string, timeoutMs: number, promise: Promise<T>): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(operation, timeoutMs)), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Database decorator applying per-operation timeouts.
+ *
+ * Transactions are bounded by the timeouts of the statements inside them
+ * rather than as a whole. Giving up on a transaction callback would leave it
+ * running, and it might still commit.
+ */
+class TimeoutDatabase implements Database {
+  constructor(
+    private readonly db: Database,
+    private readonly timeouts: DatabaseTimeouts = DEFAULT_DATABASE_TIMEOUTS
+  ) {}
+
+  query<T>(sql: string, params: unknown[]): Promise<T[]> {
+    return withTimeout("Database.query", this.timeouts.query, this.db.query<T>(sql, params));
+  }
+
+  execute(sql: string, params: unknown[]): Promise<void> {
+    return withTimeout("Database.execute", this.timeouts.execute, this.db.execute(sql, params));
+  }
+
+  transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.db.transaction(fn);
+  }
+
+  inTransaction(): boolean {
+    return this.db.inTransaction();
+  }
+
+  // A stream runs for as long as its consumer, so it has no timeout
+  stream<T>(sql: string, params: unknown[]): AsyncIterable<T> {
+    return this.db.stream<T>(sql, params);
+  }
+}
+
+/**
+ * Cache decorator applying per-operation timeouts.
+ */
+class TimeoutCache implements Cache {
+  constructor(
+    private readonly cache: Cache,
+    private readonly timeouts: CacheTimeouts = DEFAULT_CACHE_TIMEOUTS
+  ) {}
+
+  get<T>(key: string): Promise<T | null> {
+    return withTimeout("Cache.get", this.timeouts.get, this.cache.get<T>(key));
+  }
+
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    return withTimeout("Cache.set", this.timeouts.set, this.cache.set(key, value, ttlSeconds));
+  }
+
+  delete(key: string): Promise<void> {
+    return withTimeout("Cache.delete", this.timeouts.delete, this.cache.delete(key));
+  }
+
+  stats(): CacheStats {
+    return this.cache.stats();
+  }
+}
+
+/**
+ * "closed" lets calls through, "open" short-circuits them, and "half-open"
+ * lets a single trial call through to decide which of the two comes next.
+ */
+type CircuitState = "closed" | "open" | "half-open";
+
+interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When the circuit last opened, in epoch milliseconds */
+  openedAt: number | null;
+}
+
+interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial call is let through */
+  resetTimeoutMs: number;
+  now?: () => number;
+}
+
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+/**
+ * Cache decorator that stops calling a failing cache for a while.
+ *
+ * While the circuit is open, reads are misses and writes are skipped,
+ * without calling the cache. A skipped invalidation can leave a stale entry
+ * until it expires, just as a failed one does.
+ *
+ * PROBLEM: The state is plain mutable fields. It stays consistent only
+ * because nothing awaits between reading and updating it - one `await`
+ * added in the wrong place would let two callers both become the
+ * half-open trial call.
+ */
+class CircuitBreakerCache implements Cache {
+  private current: CircuitBreakerStatus = { state: "closed", consecutiveFailures: 0, openedAt: null };
+
+  constructor(
+    private readonly cache: Cache,
+    private readonly logger: Logger,
+    private readonly options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS
+  ) {}
+
+  get<T>(key: string): Promise<T | null> {
+    return this.protect(() => this.cache.get<T>(key), null);
+  }
+
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    return this.protect(() => this.cache.set(key, value, ttlSeconds), undefined);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.protect(() => this.cache.delete(key), undefined);
+  }
+
+  stats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  status(): CircuitBreakerStatus {
+    return { ...this.current };
+  }
+
+  private async protect<T>(call: () => Promise<T>, shortCircuited: T): Promise<T> {
+    if (!this.acquire()) {
+      return shortCircuited;
+    }
+
+    try {
+      const result = await call();
+      this.transition({ state: "closed", consecutiveFailures: 0, openedAt: null });
+      return result;
+    } catch (error) {
+      const consecutiveFailures = this.current.consecutiveFailures + 1;
+      this.transition(
+        this.current.state === "half-open" || consecutiveFailures >= this.options.failureThreshold
+          ? { state: "open", consecutiveFailures, openedAt: this.now() }
+          : { ...this.current, consecutiveFailures }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a call may reach the cache, moving open to half-open once the
+   * reset timeout has passed.
+   */
+  private acquire(): boolean {
+    switch (this.current.state) {
+      case "closed":
+        return true;
+      case "open":
+        if (this.now() - (this.current.openedAt ?? 0) < this.options.resetTimeoutMs) {
+          return false;
+        }
+        this.transition({ ...this.current, state: "half-open" });
+        return true;
+      case "half-open":
+        // The trial call is still running
+        return false;
+    }
+  }
+
+  private transition(next: CircuitBreakerStatus): void {
+    const previous = this.current;
+    this.current = next;
+    if (previous.state !== next.state) {
+      this.logger.info("Cache circuit state changed", {
+        from: previous.state,
+        to: next.state,
+        consecutiveFailures: next.consecutiveFailures,
+      });
+    }
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
+
+/**
+ * Request-scoped fields attached to every log entry (request id, route,
+ * user id).
+ */
+const logContext = new AsyncLocalStorage<Record<string, unknown>>();
+
+/**
+ * Run `fn` with extra fields added to the log context.
+ *
+ * PROBLEM: The context only survives through code that keeps the async
+ * chain intact. Callbacks scheduled outside it (e.g. on a shared queue or a
+ * pooled connection) silently log without it.
+ */
+function withLogContext<T>(context: Record<string, unknown>, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...context }, fn);
+}
+
+/**
+ * Turn an error into plain JSON-friendly data, following its `cause` chain.
+ *
+ * Error's name, message and stack are not enumerable, so they are copied
+ * explicitly.
+ */
+function serializeError(error: unknown, depth = 0): unknown {
+  if (typeof error !== "object" || error === null || depth > 5) {
+    return error;
+  }
+
+  const fields: Record<string, unknown> = error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : {};
+  for (const [key, value] of Object.entries(error)) {
+    fields[key] = value;
+  }
+  if ("cause" in error && error.cause !== undefined) {
+    fields.cause = serializeError(error.cause, depth + 1);
+  }
+  return fields;
+}
+
+/**
+ * Logger writing one JSON line per entry, dropping entries below the
+ * configured log level, with the current log context attached.
+ */
+class JsonLogger implements Logger {
+  private static readonly rank: Record<LogLevel, number> = { debug: 0, info: 1, error: 2 };
+
+  constructor(
+    private readonly options: {
+      level: LogLevel;
+      now?: () => number;
+      write?: (line: string, level: LogLevel) => void;
+    }
+  ) {}
+
+  info(message: string, meta?: Record<string, unknown>): void {
+    this.write("info", message, meta);
+  }
+
+  error(message: string, error?: unknown, meta?: Record<string, unknown>): void {
+    this.write("error", message, meta, error);
+  }
+
+  debug(message: string, meta?: Record<string, unknown>): void {
+    this.write("debug", message, meta);
+  }
+
+  private write(level: LogLevel, message: string, meta?: Record<string, unknown>, error?: unknown): void {
+    if (JsonLogger.rank[level] < JsonLogger.rank[this.options.level]) {
+      return;
+    }
+
+    const line = JSON.stringify(
+      {
+        timestamp: new Date((this.options.now ?? Date.now)()).toISOString(),
+        level,
+        message,
+        ...logContext.getStore(),
+        ...(meta === undefined ? {} : { meta }),
+        ...(error === undefined ? {} : { error: serializeError(error) }),
+      },
+      (_key, value) => (typeof value === "bigint" ? value.toString() : value)
+    );
+
+    if (this.options.write) {
+      this.options.write(line, level);
+    } else if (level === "error") {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+type SpanKind = "internal" | "server" | "client";
+
+/**
+ * A finished span, with the field names and enum codes of the OTLP/JSON
+ * span format. Attributes are kept as a plain object.
+ */
+interface ExportedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | undefined;
+  name: string;
+  /** 1 internal, 2 server, 3 client */
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: Record<string, unknown>;
+  /** 1 ok, 2 error */
+  status: { code: number; message?: string };
+}
+
+/**
+ * Receives every span as it ends.
+ */
+interface SpanExporter {
+  export(span: ExportedSpan): void;
+}
+
+/**
+ * Keeps finished spans in memory, so tests can inspect them offline.
+ */
+class InMemorySpanExporter implements SpanExporter {
+  readonly spans: ExportedSpan[] = [];
+
+  export(span: ExportedSpan): void {
+    this.spans.push(span);
+  }
+
+  clear(): void {
+    this.spans.length = 0;
+  }
+}
+
+/**
+ * Appends each finished span to a file as one JSON line.
+ */
+class FileSpanExporter implements SpanExporter {
+  constructor(private readonly path: string) {}
+
+  export(span: ExportedSpan): void {
+    try {
+      appendFileSync(this.path, `${JSON.stringify(span)}\n`);
+    } catch (error) {
+      // A lost span must never fail the traced operation
+      console.error(`Failed to export span to ${this.path}`, error);
+    }
+  }
+}
+
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+/**
+ * Current time in nanoseconds since the epoch.
+ */
+function nowUnixNano(): bigint {
+  return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1_000_000));
+}
+
+class Span {
+  readonly traceId: string;
+  readonly spanId = randomBytes(8).toString("hex");
+  private readonly attributes: Record<string, unknown>;
+  private readonly startTime = nowUnixNano();
+
+  constructor(
+    readonly name: string,
+    private readonly kind: SpanKind,
+    private readonly parent: Span | undefined,
+    attributes: Record<string, unknown>,
+    private readonly exporter: SpanExporter | undefined
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+    this.attributes = { ...attributes };
+  }
+
+  setAttribute(key: string, value: unknown): void {
+    this.attributes[key] = value;
+  }
+
+  end(error?: unknown): void {
+    this.exporter?.export({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parent?.spanId,
+      name: this.name,
+      kind: SPAN_KIND_CODES[this.kind],
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: nowUnixNano().toString(),
+      attributes: this.attributes,
+      status: error === undefined
+        ? { code: 1 }
+        : { code: 2, message: error instanceof Error ? `${error.name}: ${error.message}` : String(error) },
+    });
+  }
+}
+
+/**
+ * Opens spans as children of the span active in the current async context.
+ * Without an exporter, spans are created but dropped when they end.
+ *
+ * PROBLEM: Every traced call has to be wrapped by hand, and the parent span
+ * only carries over through code that keeps the async chain intact - the
+ * same limitation as the log context.
+ */
+class Tracer {
+  private readonly activeSpan = new AsyncLocalStorage<Span>();
+
+  constructor(private readonly exporter?: SpanExporter) {}
+
+  async startActiveSpan<T>(
+    name: string,
+    options: { kind?: SpanKind; attributes?: Record<string, unknown> },
+    fn: (span: Span) => Promise<T>
+  ): Promise<T> {
+    const span = new Span(
+      name,
+      options.kind ?? "internal",
+      this.activeSpan.getStore(),
+      options.attributes ?? {},
+      this.exporter
+    );
+
+    try {
+      const result = await this.activeSpan.run(span, () => fn(span));
+      span.end();
+      return result;
+    } catch (error) {
+      span.end(error);
+      throw error;
+    }
+  }
+}
+
+type Labels = Record<string, string>;
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const escape = (value: string) =>
+    value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(",")}}`;
+}
+
+/**
+ * A count that only goes up, with one series per label set.
+ */
+class Counter {
+  private readonly series = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = formatLabels(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + amount);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.series, ([labels, value]) => `${this.name}${labels} ${value}`),
+    ];
+  }
+}
+
+/**
+ * Counts observations into cumulative buckets, with one series per label set.
+ */
+class Histogram {
+  private readonly series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly boundaries: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, buckets: this.boundaries.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.boundaries.forEach((boundary, i) => {
+      if (value <= boundary) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.boundaries.forEach((boundary, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(boundary) })} ${buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * The application's metrics, rendered in the Prometheus text exposition
+ * format.
+ *
+ * PROBLEM: Every class that records a metric needs this object passed to
+ * its constructor. One that is built without it quietly records into a
+ * private instance that is never exposed.
+ */
+class Metrics {
+  readonly cacheHits = new Counter("user_cache_hits_total", "findById lookups answered by the cache");
+  readonly cacheMisses = new Counter("user_cache_misses_total", "findById lookups that went to the database");
+  readonly dbQueryDuration = new Histogram(
+    "db_query_duration_seconds",
+    "Time taken by each SQL statement, including any wait for the lock",
+    Array.from({ length: 13 }, (_, i) => 0.0005 * 2 ** i)
+  );
+  readonly userErrors = new Counter("user_errors_total", "Domain errors handled by the HTTP layer, by name");
+  readonly httpResponses = new Counter("http_responses_total", "HTTP responses, by status code");
+
+  /**
+   * Count an error caught by a controller under its class name.
+   */
+  recordError(error: unknown): void {
+    this.userErrors.inc({ tag: error instanceof Error ? error.name : "UnknownError" });
+  }
+
+  render(): string {
+    return [this.cacheHits, this.cacheMisses, this.dbQueryDuration, this.userErrors, this.httpResponses]
+      .flatMap((metric) => metric.render())
+      .join("\n") + "\n";
+  }
+}
+
+/**
+ * SQLite cannot bind Date values, so they are stored as ISO-8601 text.
+ */
+function toSqlParam(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Collects keys requested during one turn of the event loop and loads them
+ * with a single call (the DataLoader pattern).
+ *
+ * PROBLEM: Batching only works if every caller goes through the same loader
+ * and yields to the event loop at the right moment - nothing in the types
+ * says whether a given lookup was batched or ran on its own.
+ *
+ * `loadMany` must return one result per key, in key order; an Error in a
+ * slot rejects only the callers waiting on that key.
+ *
+ * A flush runs outside any transaction its callers were in, so a load from
+ * inside one would wait on the transaction's own lock. Callers in a
+ * transaction must query directly instead.
+ */
+class BatchLoader<K, V> {
+  private queue: Array<{
+    key: K;
+    resolve: (value: V) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+
+  constructor(private readonly loadMany: (keys: K[]) => Promise<Array<V | Error>>) {}
+
+  load(key: K): Promise<V> {
+    return new Promise<V>((resolve, reject) => {
+      if (this.queue.length === 0) {
+        setImmediate(() => this.flush());
+      }
+      this.queue.push({ key, resolve, reject });
+    });
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.queue;
+    this.queue = [];
 
-// ============================================================================
-// Error Types (not tracked by type system in function signatures)
-// ============================================================================
+    const keys = [...new Set(batch.map((entry) => entry.key))];
+    let results: Array<V | Error>;
+    try {
+      results = await this.loadMany(keys);
+    } catch (error) {
+      // A failed load fails every caller in the batch
+      for (const entry of batch) entry.reject(error);
+      return;
+    }
 
-class UserNotFoundError extends Error {
-  constructor(public readonly userId: string) {
-    super(`User not found: ${userId}`);
-    this.name = "UserNotFoundError";
+    for (const entry of batch) {
+      const result = results[keys.indexOf(entry.key)];
+      if (result instanceof Error) {
+        entry.reject(result);
+      } else {
+        entry.resolve(result);
+      }
+    }
   }
 }
 
-class DatabaseError extends Error {
-  constructor(
-    message: string,
-    public readonly cause?: unknown
-  ) {
-    super(message);
-    this.name = "DatabaseError";
-  }
+/**
+ * How persistently to retry transient failures.
+ */
+interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry, doubled (with jitter) for each one after */
+  baseDelayMs: number;
+  /** No retry is started once this much time has passed */
+  budgetMs: number;
 }
 
-class ValidationError extends Error {
-  constructor(
-    message: string,
-    public readonly field?: string
-  ) {
-    super(message);
-    this.name = "ValidationError";
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 100,
+  budgetMs: 2_000,
+};
+
+/**
+ * SQLite result codes for conditions that may clear up on their own
+ * (extended codes such as SQLITE_BUSY_TIMEOUT share these prefixes).
+ */
+const TRANSIENT_SQLITE_CODES = ["SQLITE_BUSY", "SQLITE_LOCKED", "SQLITE_IOERR", "SQLITE_CANTOPEN"];
+
+/**
+ * Whether retrying could possibly change the outcome.
+ *
+ * PROBLEM: Errors are `unknown`, so this is a chain of instanceof checks -
+ * a new error class is silently treated as permanent until someone
+ * remembers to add it here.
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof DatabaseError) {
+    const cause = error.cause;
+    return cause instanceof Sqlite.SqliteError &&
+      TRANSIENT_SQLITE_CODES.some((code) => cause.code.startsWith(code));
   }
+  return error instanceof CacheError || error instanceof TimeoutError;
 }
 
-class CacheError extends Error {
-  constructor(
-    message: string,
-    public readonly cause?: unknown
-  ) {
-    super(message);
-    this.name = "CacheError";
+/**
+ * Retry an async function on transient failures only, logging every failed
+ * attempt.
+ *
+ * PROBLEMS:
+ * 1. Backoff, jitter, the attempt limit and the time budget are all tangled
+ *    into one loop
+ * 2. A pending backoff delay has to be wired to the AbortSignal by hand
+ */
+async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: {
+    logger: Logger;
+    meta?: Record<string, unknown>;
+    policy?: RetryPolicy;
+    signal?: AbortSignal;
   }
-}
+): Promise<T> {
+  const { logger, meta, policy = DEFAULT_RETRY_POLICY, signal } = options;
+  const startedAt = Date.now();
 
-// ============================================================================
-// Infrastructure Interfaces (Dependencies not visible in type signatures)
-// ============================================================================
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (error) {
+      const retryable = isTransientError(error);
+      logger.error("Attempt failed", error, { ...meta, attempt, retryable });
 
-interface Database {
-  query<T>(sql: string, params: unknown[]): Promise<T[]>;
-  execute(sql: string, params: unknown[]): Promise<void>;
-}
+      if (!retryable || attempt > policy.maxRetries || Date.now() - startedAt >= policy.budgetMs) {
+        throw error;
+      }
 
-interface Cache {
-  get<T>(key: string): Promise<T | null>;
-  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
-  delete(key: string): Promise<void>;
+      const jitter = 0.8 + Math.random() * 0.4;
+      await sleep(policy.baseDelayMs * 2 ** (attempt - 1) * jitter, signal);
+    }
+  }
 }
 
-interface Logger {
-  info(message: string, meta?: Record<string, unknown>): void;
-  error(message: string, error?: unknown, meta?: Record<string, unknown>): void;
-  debug(message: string, meta?: Record<string, unknown>): void;
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 // ============================================================================
@@ -95,10 +1535,25 @@ interface Logger {
 // ============================================================================
 
 class UserRepository {
+  /**
+   * Database lookups currently in progress, keyed by user id.
+   *
+   * PROBLEM: Promises cannot be cancelled, so every caller sharing a lookup
+   * waits for it to settle even if it no longer needs the result.
+   */
+  private readonly inFlight = new Map<string, Promise<User>>();
+
+  /**
+   * Lookups that miss the cache in the same tick share one IN query.
+   */
+  private readonly userLoader = new BatchLoader<string, User>((ids) => this.loadByIds(ids));
+
   constructor(
     private readonly db: Database,
     private readonly cache: Cache,
-    private readonly logger: Logger
+    private readonly logger: Logger,
+    private readonly tracer: Tracer = new Tracer(),
+    private readonly metrics: Metrics = new Metrics()
   ) {}
 
   /**
@@ -108,52 +1563,124 @@ class UserRepository {
    * - DatabaseError (connection issues, query failures)
    * - CacheError (cache unavailable)
    * - UserNotFoundError (user doesn't exist)
+   * - DecodeError (malformed row)
+   * - TimeoutError (database too slow)
    * 
    * Callers must guess or check implementation to know what can fail.
    */
   async findById(id: string): Promise<User> {
-    this.logger.debug("Finding user by ID", { userId: id });
+    return this.tracer.startActiveSpan("UserRepository.findById", { attributes: { "user.id": id } }, async (span) => {
+      this.logger.debug("Finding user by ID", { userId: id });
 
-    // Try cache first
-    try {
-      const cached = await this.cache.get<User>(`user:${id}`);
-      if (cached) {
-        this.logger.debug("User found in cache", { userId: id });
-        return cached;
+      // The shared lookups below would wait for the lock this caller holds
+      if (this.db.inTransaction()) {
+        return this.findByIdInTransaction(id);
+      }
+
+      // Try cache first
+      try {
+        const cached = await this.cache.get<User>(`user:${id}`);
+        span.setAttribute("cache.hit", cached !== null);
+        (cached !== null ? this.metrics.cacheHits : this.metrics.cacheMisses).inc();
+        if (cached) {
+          this.logger.debug("User found in cache", { userId: id });
+          return cached;
+        }
+      } catch (error) {
+        // Cache errors are swallowed - is this correct?
+        span.setAttribute("cache.hit", false);
+        this.metrics.cacheMisses.inc();
+        this.logger.error("Cache error while fetching user", error, { userId: id });
+        // Continue to database...
+      }
+
+      // Concurrent misses for the same id share one query and one cache write
+      const pending = this.inFlight.get(id);
+      if (pending) {
+        return pending;
       }
+
+      // The entry must be removed once settled, or later callers would be
+      // handed a stale result (or a stale rejection)
+      const lookup = this.loadById(id).finally(() => this.inFlight.delete(id));
+      this.inFlight.set(id, lookup);
+      return lookup;
+    });
+  }
+
+  /**
+   * Load a user from the database and populate the cache.
+   */
+  private async loadById(id: string): Promise<User> {
+    const user = await this.userLoader.load(id);
+
+    // Cache the result (errors silently ignored)
+    try {
+      await this.cache.set(`user:${id}`, user); // configured TTL
     } catch (error) {
-      // Cache errors are swallowed - is this correct?
-      this.logger.error("Cache error while fetching user", error, { userId: id });
-      // Continue to database...
+      this.logger.error("Failed to cache user", error, { userId: id });
     }
 
-    // Query database
+    return user;
+  }
+
+  /**
+   * Load several users with one query, one result per id.
+   *
+   * PROBLEM: Per-id failures travel as Error values inside the array, so the
+   * compiler cannot tell callers which errors each slot may hold.
+   */
+  private async loadByIds(ids: string[]): Promise<Array<User | Error>> {
+    let rows: Array<{ id?: unknown }>;
     try {
-      const results = await this.db.query<User>(
-        "SELECT * FROM users WHERE id = ?",
-        [id]
+      rows = await this.query<{ id?: unknown }>(
+        `SELECT * FROM users WHERE id IN (${ids.map(() => "?").join(", ")})`,
+        ids
       );
-
-      if (results.length === 0) {
-        throw new UserNotFoundError(id);
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        throw error;
       }
+      throw new DatabaseError("Failed to fetch user from database", error);
+    }
 
-      const user = results[0];
-
-      // Cache the result (errors silently ignored)
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+    return ids.map((id) => {
+      const row = rowsById.get(id);
+      if (row === undefined) {
+        return new UserNotFoundError(id);
+      }
       try {
-        await this.cache.set(`user:${id}`, user, 300); // 5 minute TTL
+        return decodeUserRow(row);
       } catch (error) {
-        this.logger.error("Failed to cache user", error, { userId: id });
+        return error as DecodeError;
       }
+    });
+  }
 
-      return user;
+  /**
+   * Find a user by ID inside a transaction, straight from the database.
+   *
+   * PROBLEM: The cache, the in-flight lookups and the batch loader are
+   * shared with callers outside the transaction. A lookup started by one of
+   * them waits for the lock the transaction holds, so joining it would
+   * deadlock. findById only avoids that by asking the database at runtime.
+   */
+  private async findByIdInTransaction(id: string): Promise<User> {
+    let rows: unknown[];
+    try {
+      rows = await this.query<unknown>("SELECT * FROM users WHERE id = ?", [id]);
     } catch (error) {
-      if (error instanceof UserNotFoundError) {
+      if (error instanceof TimeoutError) {
         throw error;
       }
       throw new DatabaseError("Failed to fetch user from database", error);
     }
+
+    if (rows.length === 0) {
+      throw new UserNotFoundError(id);
+    }
+    return decodeUserRow(rows[0]);
   }
 
   /**
@@ -162,17 +1689,107 @@ class UserRepository {
    * PROBLEM: Same issues as findById - errors not visible in types.
    */
   async findByEmail(email: string): Promise<User | null> {
-    this.logger.debug("Finding user by email", { email });
+    return this.tracer.startActiveSpan("UserRepository.findByEmail", {}, async () => {
+      this.logger.debug("Finding user by email", { email });
 
-    try {
-      const results = await this.db.query<User>(
-        "SELECT * FROM users WHERE email = ?",
-        [email]
-      );
+      let results: unknown[];
+      try {
+        results = await this.query<unknown>(
+          "SELECT * FROM users WHERE email = ?",
+          [email]
+        );
+      } catch (error) {
+        if (error instanceof TimeoutError) {
+          throw error;
+        }
+        throw new DatabaseError("Failed to fetch user by email", error);
+      }
 
-      return results.length > 0 ? results[0] : null;
-    } catch (error) {
-      throw new DatabaseError("Failed to fetch user by email", error);
+      return results.length > 0 ? decodeUserRow(results[0]) : null;
+    });
+  }
+
+  /**
+   * List users in creation order, one page at a time.
+   *
+   * Pages are keyed on (created_at, id) rather than an offset, so a cursor
+   * keeps its place while users are created or deleted.
+   */
+  async list(options: ListUsersOptions): Promise<UserPage> {
+    return this.tracer.startActiveSpan("UserRepository.list", { attributes: { "page.limit": options.limit } }, async () => {
+      this.logger.debug("Listing users", { limit: options.limit, prefix: options.prefix });
+
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+      if (options.after) {
+        conditions.push("(created_at > ? OR (created_at = ? AND id > ?))");
+        params.push(options.after.createdAt, options.after.createdAt, options.after.id);
+      }
+      if (options.prefix !== undefined) {
+        const pattern = `${options.prefix.replace(/[\\%_]/g, "\\$&")}%`;
+        conditions.push("(name LIKE ? ESCAPE '\\' OR email LIKE ? ESCAPE '\\')");
+        params.push(pattern, pattern);
+      }
+      if (options.createdAfter) {
+        conditions.push("created_at > ?");
+        params.push(options.createdAfter);
+      }
+      if (options.createdBefore) {
+        conditions.push("created_at < ?");
+        params.push(options.createdBefore);
+      }
+
+      // One extra row tells whether another page follows
+      let rows: unknown[];
+      try {
+        rows = await this.query<unknown>(
+          `SELECT * FROM users${conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : ""}` +
+            " ORDER BY created_at, id LIMIT ?",
+          [...params, options.limit + 1]
+        );
+      } catch (error) {
+        if (error instanceof TimeoutError) {
+          throw error;
+        }
+        throw new DatabaseError("Failed to list users", error);
+      }
+
+      const users = rows.slice(0, options.limit).map(decodeUserRow);
+      const last = users[users.length - 1];
+
+      return {
+        users,
+        nextCursor: rows.length > options.limit && last ? { createdAt: last.createdAt, id: last.id } : null,
+      };
+    });
+  }
+
+  /**
+   * Every user in creation order, decoded as the rows are read.
+   *
+   * PROBLEM: startActiveSpan takes a callback, and a generator returns at
+   * its first yield, so this is the one repository method left untraced.
+   */
+  async *streamAll(): AsyncGenerator<User> {
+    this.logger.debug("Streaming all users");
+
+    const rows = this.db.stream<unknown>("SELECT * FROM users ORDER BY created_at, id", [])[Symbol.asyncIterator]();
+    try {
+      for (;;) {
+        let next: IteratorResult<unknown>;
+        try {
+          next = await rows.next();
+        } catch (error) {
+          throw new DatabaseError("Failed to stream users", error);
+        }
+        if (next.done) {
+          return;
+        }
+        yield decodeUserRow(next.value);
+      }
+    } finally {
+      // Closes the read connection if the consumer stops early
+      await rows.return?.();
     }
   }
 
@@ -180,67 +1797,157 @@ class UserRepository {
    * Create a new user.
    * 
    * PROBLEM: No indication that this might throw:
-   * - ValidationError (duplicate email)
+   * - EmailAlreadyInUseError (duplicate email)
    * - DatabaseError (connection issues)
    */
   async create(input: CreateUserInput): Promise<User> {
-    this.logger.info("Creating new user", { email: input.email });
-
-    // Check for duplicate email
-    const existing = await this.findByEmail(input.email);
-    if (existing) {
-      throw new ValidationError("Email already in use", "email");
-    }
-
-    const user: User = {
-      id: crypto.randomUUID(),
-      email: input.email,
-      name: input.name,
-      createdAt: new Date(),
-    };
+    return this.tracer.startActiveSpan("UserRepository.create", {}, async (span) => {
+      this.logger.info("Creating new user", { email: input.email });
+
+      // Check and insert atomically so concurrent registrations cannot race
+      return this.db.transaction(async () => {
+        // Check for duplicate email
+        const existing = await this.findByEmail(input.email);
+        if (existing) {
+          throw new EmailAlreadyInUseError(input.email);
+        }
+
+        const user: User = {
+          id: crypto.randomUUID(),
+          email: input.email,
+          name: input.name,
+          createdAt: new Date(),
+        };
+        span.setAttribute("user.id", user.id);
+
+        // The unique index on email still guards writers that bypass
+        // this method
+        try {
+          await this.execute(
+            "INSERT INTO users (id, email, name, created_at) VALUES (?, ?, ?, ?)",
+            [user.id, user.email, user.name, user.createdAt]
+          );
+
+          return user;
+        } catch (error) {
+          if (error instanceof UniqueConstraintError) {
+            throw new EmailAlreadyInUseError(input.email);
+          }
+          if (error instanceof TimeoutError) {
+            throw error;
+          }
+          throw new DatabaseError("Failed to create user", error);
+        }
+      });
+    });
+  }
 
-    try {
-      await this.db.execute(
-        "INSERT INTO users (id, email, name, created_at) VALUES (?, ?, ?, ?)",
-        [user.id, user.email, user.name, user.createdAt]
-      );
+  /**
+   * Insert a batch of import records in one transaction, skipping emails
+   * that are already registered.
+   *
+   * PROBLEM: The failure reason is narrowed from `unknown` by hand - nothing
+   * checks that the transaction can only reject with the errors listed in
+   * ImportFailureReason.
+   */
+  async insertBatch(batch: Array<{ line: number; input: CreateUserInput }>): Promise<ImportRowResult[]> {
+    return this.tracer.startActiveSpan("UserRepository.insertBatch", { attributes: { "batch.size": batch.length } }, async () => {
+      this.logger.debug("Inserting import batch", { size: batch.length });
+
+      const alreadyInUse = (line: number, email: string): ImportRowResult => ({
+        status: "skipped",
+        line,
+        reason: new EmailAlreadyInUseError(email),
+      });
 
-      return user;
-    } catch (error) {
-      throw new DatabaseError("Failed to create user", error);
-    }
+      try {
+        return await this.db.transaction(async () => {
+          const emails = batch.map(({ input }) => input.email);
+          const existing = await this.query<{ email: string }>(
+            `SELECT email FROM users WHERE email IN (${emails.map(() => "?").join(", ")})`,
+            emails
+          );
+          const taken = new Set(existing.map((row) => row.email));
+
+          const results: ImportRowResult[] = [];
+          for (const { line, input } of batch) {
+            if (taken.has(input.email)) {
+              results.push(alreadyInUse(line, input.email));
+              continue;
+            }
+
+            const id = crypto.randomUUID();
+            try {
+              await this.execute(
+                "INSERT INTO users (id, email, name, created_at) VALUES (?, ?, ?, ?)",
+                [id, input.email, input.name, new Date()]
+              );
+              results.push({ status: "created", line, userId: id });
+            } catch (error) {
+              // The unique index still guards writers that bypass the check
+              if (!(error instanceof UniqueConstraintError)) {
+                throw error;
+              }
+              results.push(alreadyInUse(line, input.email));
+            }
+          }
+          return results;
+        });
+      } catch (error) {
+        // The transaction was rolled back, so none of the batch was imported
+        const reason =
+          error instanceof TimeoutError || error instanceof DatabaseError
+            ? error
+            : new DatabaseError("Failed to import users", error);
+        return batch.map(({ line }): ImportRowResult => ({ status: "failed", line, reason }));
+      }
+    });
   }
 
   /**
    * Update an existing user.
    */
   async update(id: string, input: UpdateUserInput): Promise<User> {
-    this.logger.info("Updating user", { userId: id, fields: Object.keys(input) });
-
-    // Verify user exists
-    const user = await this.findById(id);
-
-    // Check email uniqueness if changing email
-    if (input.email && input.email !== user.email) {
-      const existing = await this.findByEmail(input.email);
-      if (existing) {
-        throw new ValidationError("Email already in use", "email");
-      }
-    }
-
-    const updated: User = {
-      ...user,
-      email: input.email ?? user.email,
-      name: input.name ?? user.name,
-    };
-
-    try {
-      await this.db.execute(
-        "UPDATE users SET email = ?, name = ? WHERE id = ?",
-        [updated.email, updated.name, id]
-      );
+    return this.tracer.startActiveSpan("UserRepository.update", { attributes: { "user.id": id } }, async () => {
+      this.logger.info("Updating user", { userId: id, fields: Object.keys(input) });
+
+      const updated = await this.db.transaction(async () => {
+        // Verify user exists
+        const user = await this.findByIdInTransaction(id);
+
+        // Check email uniqueness if changing email
+        if (input.email && input.email !== user.email) {
+          const existing = await this.findByEmail(input.email);
+          if (existing) {
+            throw new EmailAlreadyInUseError(input.email);
+          }
+        }
+
+        const updated: User = {
+          ...user,
+          email: input.email ?? user.email,
+          name: input.name ?? user.name,
+        };
+
+        try {
+          await this.execute(
+            "UPDATE users SET email = ?, name = ? WHERE id = ?",
+            [updated.email, updated.name, id]
+          );
+
+          return updated;
+        } catch (error) {
+          if (error instanceof UniqueConstraintError) {
+            throw new EmailAlreadyInUseError(updated.email);
+          }
+          if (error instanceof TimeoutError) {
+            throw error;
+          }
+          throw new DatabaseError("Failed to update user", error);
+        }
+      });
 
-      // Invalidate cache
+      // Invalidate cache once the change is committed
       try {
         await this.cache.delete(`user:${id}`);
       } catch (error) {
@@ -248,24 +1955,31 @@ class UserRepository {
       }
 
       return updated;
-    } catch (error) {
-      throw new DatabaseError("Failed to update user", error);
-    }
+    });
   }
 
   /**
    * Delete a user.
    */
   async delete(id: string): Promise<void> {
-    this.logger.info("Deleting user", { userId: id });
-
-    // Verify user exists
-    await this.findById(id);
-
-    try {
-      await this.db.execute("DELETE FROM users WHERE id = ?", [id]);
+    return this.tracer.startActiveSpan("UserRepository.delete", { attributes: { "user.id": id } }, async () => {
+      this.logger.info("Deleting user", { userId: id });
+
+      await this.db.transaction(async () => {
+        // Verify user exists
+        await this.findByIdInTransaction(id);
+
+        try {
+          await this.execute("DELETE FROM users WHERE id = ?", [id]);
+        } catch (error) {
+          if (error instanceof TimeoutError) {
+            throw error;
+          }
+          throw new DatabaseError("Failed to delete user", error);
+        }
+      });
 
-      // Invalidate cache
+      // Invalidate cache once the delete is committed
       try {
         await this.cache.delete(`user:${id}`);
       } catch (error) {
@@ -273,8 +1987,37 @@ class UserRepository {
           userId: id,
         });
       }
-    } catch (error) {
-      throw new DatabaseError("Failed to delete user", error);
+    });
+  }
+
+  /**
+   * Run a query in a client span carrying the SQL statement.
+   */
+  private query<T>(sql: string, params: unknown[]): Promise<T[]> {
+    return this.instrumented("query", sql, () => this.db.query<T>(sql, params));
+  }
+
+  /**
+   * Run a statement in a client span carrying the SQL statement.
+   */
+  private execute(sql: string, params: unknown[]): Promise<void> {
+    return this.instrumented("execute", sql, () => this.db.execute(sql, params));
+  }
+
+  /**
+   * One client span and one duration sample per statement, including any
+   * wait for the lock.
+   */
+  private async instrumented<T>(operation: "query" | "execute", sql: string, run: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      return await this.tracer.startActiveSpan(
+        `db.${operation}`,
+        { kind: "client", attributes: { "db.system": "sqlite", "db.statement": sql } },
+        run
+      );
+    } finally {
+      this.metrics.dbQueryDuration.observe({ operation }, (performance.now() - start) / 1000);
     }
   }
 }
@@ -284,7 +2027,11 @@ class UserRepository {
 // ============================================================================
 
 class UserService {
-  constructor(private readonly userRepository: UserRepository) {}
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly logger: Logger,
+    private readonly retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ) {}
 
   /**
    * Get user profile with computed fields.
@@ -313,35 +2060,180 @@ class UserService {
     };
   }
 
+  /**
+   * Get user profile, retrying transient database and cache failures.
+   *
+   * PROBLEM: Nothing in the signature says which errors are retried - a
+   * UserNotFoundError fails immediately only because withRetry knows better.
+   */
+  async getUserProfileWithRetry(
+    userId: string,
+    policy: RetryPolicy = this.retryPolicy
+  ): ReturnType<UserService["getUserProfile"]> {
+    return withRetry(() => this.getUserProfile(userId), {
+      logger: this.logger,
+      meta: { userId },
+      policy,
+    });
+  }
+
   /**
    * Register a new user with validation.
    */
   async registerUser(input: CreateUserInput): Promise<User> {
+    this.validateUserInput(input);
+    return this.userRepository.create(input);
+  }
+
+  /**
+   * Validate every field of a user input, throwing all failures together.
+   *
+   * PROBLEM: Accumulating errors means abandoning early `throw` and
+   * threading a mutable array through every check by hand.
+   */
+  private validateUserInput(input: CreateUserInput): void {
+    const errors: ValidationError[] = [];
+
     // Validate email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!emailRegex.test(input.email)) {
-      throw new ValidationError("Invalid email format", "email");
+      errors.push(new ValidationError("Invalid email format", "email"));
     }
 
     // Validate name
     if (input.name.length < 2) {
+      errors.push(new ValidationError("Name must be at least 2 characters", "name"));
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationErrors(errors);
+    }
+  }
+
+  /**
+   * Change user email with verification.
+   */
+  async changeEmail(userId: string, newEmail: string): Promise<User> {
+    // Validate email format
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(newEmail)) {
+      throw new ValidationError("Invalid email format", "email");
+    }
+
+    return this.userRepository.update(userId, { email: newEmail });
+  }
+
+  /**
+   * Change a user's display name.
+   */
+  async renameUser(userId: string, newName: string): Promise<User> {
+    if (newName.length < 2) {
       throw new ValidationError("Name must be at least 2 characters", "name");
     }
 
-    return this.userRepository.create(input);
-  }
+    return this.userRepository.update(userId, { name: newName });
+  }
+
+  /**
+   * Replace every editable field of a user, validating all of them.
+   */
+  async replaceUser(userId: string, input: CreateUserInput): Promise<User> {
+    this.validateUserInput(input);
+    return this.userRepository.update(userId, input);
+  }
+
+  /**
+   * Delete a user.
+   */
+  async deleteUser(userId: string): Promise<void> {
+    return this.userRepository.delete(userId);
+  }
+
+  /**
+   * List one page of users.
+   */
+  async listUsers(options: ListUsersOptions): Promise<UserPage> {
+    return this.userRepository.list(options);
+  }
+
+  /**
+   * Every user, read as the caller iterates.
+   */
+  exportUsers(): AsyncIterable<User> {
+    return this.userRepository.streamAll();
+  }
+
+  /**
+   * Import users from an NDJSON or CSV file.
+   *
+   * Every record is validated first. Records repeating an email from earlier
+   * in the file are skipped. The rest are inserted in batched transactions,
+   * up to `concurrency` batches at a time. On SQLite the transactions still
+   * take turns on the one connection.
+   *
+   * PROBLEMS:
+   * 1. Each record's failure is caught as `unknown` and cast to the reasons
+   *    the report promises
+   * 2. Only an unreadable file should fail the import as a whole, but that
+   *    is only true while insertBatch keeps catching everything
+   */
+  async importUsers(format: FileFormat, text: string, options: ImportOptions = {}): Promise<ImportReport> {
+    const start = performance.now();
+    const records = parseImportFile(format, text);
+    this.logger.info("Importing users", { format, records: records.length });
+
+    const rejected: ImportRowResult[] = [];
+    const accepted: Array<{ line: number; input: CreateUserInput }> = [];
+    const firstLineByEmail = new Map<string, number>();
+
+    for (const record of records) {
+      const { line } = record;
+      if ("error" in record) {
+        rejected.push({ status: "failed", line, reason: record.error });
+        continue;
+      }
+
+      let input: CreateUserInput;
+      try {
+        input = parseImportRecord(record.fields);
+        this.validateUserInput(input);
+      } catch (error) {
+        rejected.push({ status: "failed", line, reason: error as ValidationError | ValidationErrors });
+        continue;
+      }
+
+      const firstLine = firstLineByEmail.get(input.email);
+      if (firstLine !== undefined) {
+        rejected.push({ status: "skipped", line, reason: new DuplicateRowError(input.email, firstLine) });
+        continue;
+      }
+      firstLineByEmail.set(input.email, line);
+      accepted.push({ line, input });
+    }
 
-  /**
-   * Change user email with verification.
-   */
-  async changeEmail(userId: string, newEmail: string): Promise<User> {
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(newEmail)) {
-      throw new ValidationError("Invalid email format", "email");
+    const batchSize = options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE;
+    const batches: Array<typeof accepted> = [];
+    for (let i = 0; i < accepted.length; i += batchSize) {
+      batches.push(accepted.slice(i, i + batchSize));
     }
 
-    return this.userRepository.update(userId, { email: newEmail });
+    const inserted = await processWithConcurrencyLimit(
+      batches,
+      (batch) => this.userRepository.insertBatch(batch),
+      options.concurrency ?? DEFAULT_CONFIG.batchConcurrency
+    );
+
+    const rows = [...rejected, ...inserted.flat()].sort((a, b) => a.line - b.line);
+    const summary: ImportSummary = {
+      total: rows.length,
+      created: rows.filter((row) => row.status === "created").length,
+      skipped: rows.filter((row) => row.status === "skipped").length,
+      failed: rows.filter((row) => row.status === "failed").length,
+      durationMs: performance.now() - start,
+    };
+    this.logger.info("Imported users", { ...summary });
+
+    return { rows, summary };
   }
 }
 
@@ -352,16 +2244,213 @@ class UserService {
 // Mock types for HTTP framework
 interface Request {
   params: Record<string, string>;
+  query: Record<string, unknown>;
   body: unknown;
 }
 
 interface Response {
   status(code: number): Response;
   json(data: unknown): void;
+  end(): void;
+  setHeader(name: string, value: string): void;
+  write(chunk: string): boolean;
+  on(event: "drain" | "close", listener: () => void): void;
+  off(event: "drain" | "close", listener: () => void): void;
+  destroy(): void;
+  readonly destroyed: boolean;
+}
+
+/**
+ * Resolve once the response can take more data, or the connection is gone.
+ */
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Content type, header lines and per-user encoding of each export format.
+ */
+const EXPORT_FORMATS: Record<
+  FileFormat,
+  { contentType: string; header: string[]; encode: (user: User) => string }
+> = {
+  ndjson: {
+    contentType: "application/x-ndjson",
+    header: [],
+    encode: (user) => `${JSON.stringify(user)}\n`,
+  },
+  csv: {
+    contentType: "text/csv; charset=utf-8",
+    header: ["id,email,name,createdAt\r\n"],
+    encode: (user) =>
+      `${[user.id, user.email, user.name, user.createdAt.toISOString()].map(csvField).join(",")}\r\n`,
+  },
+};
+
+/**
+ * The JSON form of why an import record was skipped or failed.
+ *
+ * PROBLEM: Nothing makes this chain exhaustive - a new reason falls through
+ * to the last branch and is reported as a server error.
+ */
+function describeImportReason(reason: ImportSkipReason | ImportFailureReason): Record<string, unknown> {
+  if (reason instanceof DuplicateRowError) {
+    return { type: reason.name, message: reason.message, email: reason.email };
+  }
+  if (reason instanceof EmailAlreadyInUseError) {
+    return { type: reason.name, message: "Email already in use", email: reason.email };
+  }
+  if (reason instanceof MalformedRowError) {
+    return { type: reason.name, message: reason.message };
+  }
+  if (reason instanceof ValidationError) {
+    return { type: reason.name, message: reason.message, errors: reason.fieldErrors };
+  }
+  if (reason instanceof ValidationErrors) {
+    return { type: reason.name, message: "Validation failed", errors: reason.errors.flatMap((e) => e.fieldErrors) };
+  }
+  if (reason instanceof TimeoutError) {
+    return { type: reason.name, message: "Operation timed out", operation: reason.operation };
+  }
+  return { type: reason.name, message: "Service unavailable" };
 }
 
 class UserController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly metrics: Metrics = new Metrics(),
+    private readonly importOptions: ImportOptions = {}
+  ) {}
+
+  /**
+   * GET /users?cursor=&limit=&q=&createdAfter=&createdBefore=
+   *
+   * `nextCursor` is null on the last page.
+   */
+  async listUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const options = parseListUsersQuery(req.query);
+      const page = await this.userService.listUsers(options);
+      res.status(200).json({
+        users: page.users,
+        nextCursor: page.nextCursor === null ? null : encodeCursor(page.nextCursor),
+      });
+    } catch (error) {
+      this.metrics.recordError(error);
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          error: error.message,
+          field: error.field,
+          errors: error.fieldErrors,
+        });
+      } else if (error instanceof TimeoutError) {
+        res.status(504).json({ error: "Operation timed out", operation: error.operation });
+      } else if (error instanceof DatabaseError) {
+        res.status(503).json({ error: "Service unavailable" });
+      } else {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  }
+
+  /**
+   * GET /users/export?format=ndjson|csv
+   *
+   * PROBLEMS:
+   * 1. Backpressure is by hand - a write that fills the socket buffer must be
+   *    followed by waiting for "drain", or the table piles up in memory
+   * 2. Once the status is sent, a failure can only cut the connection, so
+   *    errors are handled in two places with different outcomes
+   */
+  async exportUsers(req: Request, res: Response): Promise<void> {
+    let format: FileFormat;
+    try {
+      format = parseFileFormat(req.query);
+    } catch (error) {
+      this.metrics.recordError(error);
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          error: error.message,
+          field: error.field,
+          errors: error.fieldErrors,
+        });
+      } else {
+        res.status(500).json({ error: "Internal server error" });
+      }
+      return;
+    }
+
+    const { contentType, header, encode } = EXPORT_FORMATS[format];
+    res.status(200).setHeader("Content-Type", contentType);
+
+    try {
+      for (const line of header) {
+        res.write(line);
+      }
+      for await (const user of this.userService.exportUsers()) {
+        // The client went away; leaving the loop closes the read connection
+        if (res.destroyed) {
+          break;
+        }
+        if (!res.write(encode(user))) {
+          await waitForDrain(res);
+        }
+      }
+      res.end();
+    } catch (error) {
+      this.metrics.recordError(error);
+      // Ending normally would make a truncated export look complete
+      res.destroy();
+    }
+  }
+
+  /**
+   * POST /users/import?format=ndjson|csv
+   *
+   * The body is the file itself. Every record gets a result in the report,
+   * so the import answers 200 even when some records were not imported.
+   */
+  async importUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const format = parseFileFormat(req.query);
+      if (typeof req.body !== "string") {
+        throw new ValidationError("Expected the file as the request body", "body");
+      }
+
+      const { rows, summary } = await this.userService.importUsers(format, req.body, this.importOptions);
+      res.status(200).json({
+        summary,
+        rows: rows.map((row) =>
+          row.status === "created"
+            ? { line: row.line, status: row.status, userId: row.userId }
+            : { line: row.line, status: row.status, reason: describeImportReason(row.reason) }
+        ),
+      });
+    } catch (error) {
+      this.metrics.recordError(error);
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          error: error.message,
+          field: error.field,
+          errors: error.fieldErrors,
+        });
+      } else {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  }
 
   /**
    * GET /users/:id
@@ -374,8 +2463,11 @@ class UserController {
       const profile = await this.userService.getUserProfile(req.params.id);
       res.status(200).json(profile);
     } catch (error) {
+      this.metrics.recordError(error);
       if (error instanceof UserNotFoundError) {
         res.status(404).json({ error: "User not found" });
+      } else if (error instanceof TimeoutError) {
+        res.status(504).json({ error: "Operation timed out", operation: error.operation });
       } else if (error instanceof DatabaseError) {
         res.status(503).json({ error: "Service unavailable" });
       } else {
@@ -389,15 +2481,26 @@ class UserController {
    */
   async createUser(req: Request, res: Response): Promise<void> {
     try {
-      const input = req.body as CreateUserInput;
+      const input = parseCreateUserInput(req.body);
       const user = await this.userService.registerUser(input);
       res.status(201).json(user);
     } catch (error) {
-      if (error instanceof ValidationError) {
+      this.metrics.recordError(error);
+      if (error instanceof EmailAlreadyInUseError) {
+        res.status(409).json({ error: "Email already in use", field: "email" });
+      } else if (error instanceof ValidationErrors) {
+        res.status(400).json({
+          error: error.message,
+          errors: error.errors.flatMap((e) => e.fieldErrors),
+        });
+      } else if (error instanceof ValidationError) {
         res.status(400).json({
           error: error.message,
           field: error.field,
+          errors: error.fieldErrors,
         });
+      } else if (error instanceof TimeoutError) {
+        res.status(504).json({ error: "Operation timed out", operation: error.operation });
       } else if (error instanceof DatabaseError) {
         res.status(503).json({ error: "Service unavailable" });
       } else {
@@ -411,17 +2514,89 @@ class UserController {
    */
   async updateEmail(req: Request, res: Response): Promise<void> {
     try {
-      const { email } = req.body as { email: string };
+      const { email } = parseChangeEmailInput(req.body);
       const user = await this.userService.changeEmail(req.params.id, email);
       res.status(200).json(user);
     } catch (error) {
+      this.metrics.recordError(error);
+      if (error instanceof UserNotFoundError) {
+        res.status(404).json({ error: "User not found" });
+      } else if (error instanceof EmailAlreadyInUseError) {
+        res.status(409).json({ error: "Email already in use", field: "email" });
+      } else if (error instanceof ValidationError) {
+        res.status(400).json({
+          error: error.message,
+          field: error.field,
+          errors: error.fieldErrors,
+        });
+      } else if (error instanceof TimeoutError) {
+        res.status(504).json({ error: "Operation timed out", operation: error.operation });
+      } else if (error instanceof DatabaseError) {
+        res.status(503).json({ error: "Service unavailable" });
+      } else {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  }
+
+  /**
+   * PATCH /users/:id/name
+   */
+  async renameUser(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = parseRenameUserInput(req.body);
+      const user = await this.userService.renameUser(req.params.id, name);
+      res.status(200).json(user);
+    } catch (error) {
+      this.metrics.recordError(error);
+      if (error instanceof UserNotFoundError) {
+        res.status(404).json({ error: "User not found" });
+      } else if (error instanceof ValidationError) {
+        res.status(400).json({
+          error: error.message,
+          field: error.field,
+          errors: error.fieldErrors,
+        });
+      } else if (error instanceof TimeoutError) {
+        res.status(504).json({ error: "Operation timed out", operation: error.operation });
+      } else if (error instanceof DatabaseError) {
+        res.status(503).json({ error: "Service unavailable" });
+      } else {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  }
+
+  /**
+   * PUT /users/:id
+   *
+   * A full update replaces every editable field, so the body has the same
+   * shape as the one used to create the user.
+   */
+  async updateUser(req: Request, res: Response): Promise<void> {
+    try {
+      const input = parseCreateUserInput(req.body);
+      const user = await this.userService.replaceUser(req.params.id, input);
+      res.status(200).json(user);
+    } catch (error) {
+      this.metrics.recordError(error);
       if (error instanceof UserNotFoundError) {
         res.status(404).json({ error: "User not found" });
+      } else if (error instanceof EmailAlreadyInUseError) {
+        res.status(409).json({ error: "Email already in use", field: "email" });
+      } else if (error instanceof ValidationErrors) {
+        res.status(400).json({
+          error: error.message,
+          errors: error.errors.flatMap((e) => e.fieldErrors),
+        });
       } else if (error instanceof ValidationError) {
         res.status(400).json({
           error: error.message,
           field: error.field,
+          errors: error.fieldErrors,
         });
+      } else if (error instanceof TimeoutError) {
+        res.status(504).json({ error: "Operation timed out", operation: error.operation });
       } else if (error instanceof DatabaseError) {
         res.status(503).json({ error: "Service unavailable" });
       } else {
@@ -429,6 +2604,154 @@ class UserController {
       }
     }
   }
+
+  /**
+   * DELETE /users/:id
+   *
+   * 204 on success, 404 when the user does not exist.
+   */
+  async deleteUser(req: Request, res: Response): Promise<void> {
+    try {
+      await this.userService.deleteUser(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      this.metrics.recordError(error);
+      if (error instanceof UserNotFoundError) {
+        res.status(404).json({ error: "User not found" });
+      } else if (error instanceof TimeoutError) {
+        res.status(504).json({ error: "Operation timed out", operation: error.operation });
+      } else if (error instanceof DatabaseError) {
+        res.status(503).json({ error: "Service unavailable" });
+      } else {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  }
+}
+
+/**
+ * Outcome of probing one dependency.
+ */
+interface DependencyCheck {
+  status: "up" | "down";
+  latencyMs: number;
+  /** The name of the error the probe failed with */
+  error?: string;
+}
+
+/**
+ * "degraded" means the cache is down but requests can still be served from
+ * the database; "unavailable" means the database is down.
+ */
+type ReadinessStatus = "ok" | "degraded" | "unavailable";
+
+interface HealthReport {
+  status: ReadinessStatus;
+  checks: {
+    database: DependencyCheck;
+    cache: DependencyCheck & { circuit: CircuitState };
+  };
+}
+
+/**
+ * Probes get less time than real work, so a hung dependency is reported
+ * quickly.
+ */
+const PROBE_TIMEOUT_MS = 1_000;
+
+/**
+ * Reports on the health of the application's dependencies.
+ */
+class HealthController {
+  constructor(
+    private readonly cache: CircuitBreakerCache,
+    private readonly db: Database
+  ) {}
+
+  /**
+   * GET /health
+   *
+   * The cache is optional, so an open circuit reports "degraded" rather than
+   * failing the check.
+   */
+  async getHealth(_req: Request, res: Response): Promise<void> {
+    const circuit = this.cache.status();
+
+    res.status(200).json({
+      status: circuit.state === "closed" ? "ok" : "degraded",
+      cache: {
+        circuit: circuit.state,
+        consecutiveFailures: circuit.consecutiveFailures,
+        openedAt: circuit.openedAt === null ? null : new Date(circuit.openedAt),
+        ...this.cache.stats(),
+      },
+    });
+  }
+
+  /**
+   * GET /healthz
+   *
+   * Always 200 while the process can answer; the body reports each
+   * dependency, so a database outage does not get the process restarted.
+   */
+  async getHealthz(_req: Request, res: Response): Promise<void> {
+    res.status(200).json(await this.checkDependencies());
+  }
+
+  /**
+   * GET /readyz
+   *
+   * 503 when the database is down, so no traffic is routed here. A cache
+   * outage only degrades the service, so it stays ready.
+   */
+  async getReadyz(_req: Request, res: Response): Promise<void> {
+    const report = await this.checkDependencies();
+    res.status(report.status === "unavailable" ? 503 : 200).json(report);
+  }
+
+  /**
+   * Probe the Database and Cache concurrently.
+   *
+   * PROBLEM: Nothing in the types says which dependencies are probed, or
+   * guarantees that a failing probe is reported rather than thrown - that
+   * rests on probe() catching everything.
+   */
+  async checkDependencies(): Promise<HealthReport> {
+    const [database, cacheCheck] = await Promise.all([
+      this.probe("health.database", () => this.db.query("SELECT 1", [])),
+      this.probe("health.cache", () => this.cache.get("health:probe")),
+    ]);
+
+    // An open circuit answers every read with a miss, so the probe alone
+    // would report a broken cache as up
+    const circuit = this.cache.status().state;
+    const cache = circuit === "closed"
+      ? { ...cacheCheck, circuit }
+      : { ...cacheCheck, status: "down" as const, circuit };
+
+    const status: ReadinessStatus = database.status === "down"
+      ? "unavailable"
+      : cache.status === "down" ? "degraded" : "ok";
+
+    return { status, checks: { database, cache } };
+  }
+
+  /**
+   * Run a probe, timing it and turning any failure into a "down" result.
+   */
+  private async probe(operation: string, check: () => Promise<unknown>): Promise<DependencyCheck> {
+    const start = performance.now();
+    try {
+      await withTimeout(operation, PROBE_TIMEOUT_MS, check());
+      return { status: "up", latencyMs: performance.now() - start };
+    } catch (error) {
+      return {
+        status: "down",
+        latencyMs: performance.now() - start,
+        error: error instanceof Error ? error.name : "UnknownError",
+      };
+    }
+  }
 }
 
 // ============================================================================
@@ -440,70 +2763,271 @@ class UserController {
  * 
  * PROBLEMS:
  * 1. Error handling is complex - what if some succeed and some fail?
- * 2. No built-in concurrency limits
- * 3. Resource exhaustion possible with large batches
+ * 2. Concurrency limits need the hand-written pool below
+ * 3. Failures are untyped - each error is whatever was thrown, so callers
+ *    must narrow it with instanceof checks
  * 4. No structured cleanup if interrupted
  */
 async function processUserBatch(
   userService: UserService,
-  userIds: string[]
+  userIds: string[],
+  options: { concurrency?: number; signal?: AbortSignal } = {}
 ): Promise<{
   successful: Array<{ userId: string; profile: Awaited<ReturnType<UserService["getUserProfile"]>> }>;
-  failed: Array<{ userId: string; error: string }>;
+  failed: Array<{ userId: string; error: unknown }>;
 }> {
-  const results = await Promise.allSettled(
-    userIds.map(async (userId) => {
+  const results = await processWithConcurrencyLimit(
+    userIds,
+    async (userId) => {
       const profile = await userService.getUserProfile(userId);
       return { userId, profile };
-    })
+    },
+    options.concurrency ?? DEFAULT_CONFIG.batchConcurrency,
+    { mode: "collect-all", signal: options.signal }
   );
 
   const successful: Array<{ userId: string; profile: Awaited<ReturnType<UserService["getUserProfile"]>> }> = [];
-  const failed: Array<{ userId: string; error: string }> = [];
+  const failed: Array<{ userId: string; error: unknown }> = [];
 
   for (let i = 0; i < results.length; i++) {
     const result = results[i];
     if (result.status === "fulfilled") {
       successful.push(result.value);
     } else {
-      failed.push({
-        userId: userIds[i],
-        error: result.reason instanceof Error ? result.reason.message : "Unknown error",
-      });
+      failed.push({ userId: userIds[i], error: result.reason });
     }
   }
 
   return { successful, failed };
 }
 
+interface ConcurrencyOptions {
+  /**
+   * "fail-fast" (default) rejects with the first error once every running
+   * item has settled; "collect-all" processes every item and reports each
+   * outcome.
+   */
+  mode?: "fail-fast" | "collect-all";
+  signal?: AbortSignal;
+}
+
 /**
  * Process with concurrency limit (manual implementation).
  * 
- * This is complex and error-prone to implement correctly.
+ * Results come back in input order, and the call only settles once no item
+ * is still running.
+ *
+ * PROBLEMS:
+ * 1. Cancellation is cooperative - a processor that ignores its AbortSignal
+ *    keeps running, and the pool has to wait for it
+ * 2. Each mode needs its own overload to get the result type right
+ * 3. The caller's signal and the pool's own fail-fast abort must be merged
+ *    by hand, and the listener removed afterwards
  */
 async function processWithConcurrencyLimit<T, R>(
   items: T[],
-  processor: (item: T) => Promise<R>,
-  concurrencyLimit: number
-): Promise<R[]> {
-  const results: R[] = [];
-  const executing: Promise<void>[] = [];
-
-  for (const item of items) {
-    const promise = processor(item).then((result) => {
-      results.push(result);
-    });
+  processor: (item: T, signal: AbortSignal) => Promise<R>,
+  concurrencyLimit: number,
+  options?: ConcurrencyOptions & { mode?: "fail-fast" }
+): Promise<R[]>;
+async function processWithConcurrencyLimit<T, R>(
+  items: T[],
+  processor: (item: T, signal: AbortSignal) => Promise<R>,
+  concurrencyLimit: number,
+  options: ConcurrencyOptions & { mode: "collect-all" }
+): Promise<PromiseSettledResult<R>[]>;
+async function processWithConcurrencyLimit<T, R>(
+  items: T[],
+  processor: (item: T, signal: AbortSignal) => Promise<R>,
+  concurrencyLimit: number,
+  options: ConcurrencyOptions = {}
+): Promise<R[] | PromiseSettledResult<R>[]> {
+  if (!Number.isInteger(concurrencyLimit) || concurrencyLimit < 1) {
+    throw new RangeError(`Concurrency limit must be a positive integer, got ${concurrencyLimit}`);
+  }
+  const { mode = "fail-fast", signal } = options;
+  signal?.throwIfAborted();
+
+  // Aborted by the caller's signal, or by the first failure in fail-fast mode
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const results = new Array<PromiseSettledResult<R>>(items.length);
+  let failure: { reason: unknown } | undefined;
+  let next = 0;
+
+  // Each worker takes the next unclaimed index until none are left
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !controller.signal.aborted) {
+      const index = next++;
+      try {
+        const value = await processor(items[index], controller.signal);
+        results[index] = { status: "fulfilled", value };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+        if (mode === "fail-fast" && failure === undefined) {
+          failure = { reason };
+          controller.abort(reason);
+        }
+      }
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(concurrencyLimit, items.length) }, worker)
+    );
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  if (failure) {
+    throw failure.reason;
+  }
+  signal?.throwIfAborted();
+
+  return mode === "collect-all"
+    ? results
+    : results.map((result) => (result as PromiseFulfilledResult<R>).value);
+}
+
+// ============================================================================
+// Configuration - Hand-Written Parsing
+// ============================================================================
+
+type LogLevel = "debug" | "info" | "error";
+
+/**
+ * Application settings, loaded and validated once at startup.
+ */
+interface AppConfig {
+  databasePath: string;
+  databaseTimeouts: DatabaseTimeouts;
+  cache: {
+    capacity: number;
+    ttlSeconds: number;
+    timeouts: CacheTimeouts;
+  };
+  logLevel: LogLevel;
+  retry: RetryPolicy;
+  batchConcurrency: number;
+  /** Where to append finished spans as JSON lines; tracing is off if null */
+  traceFile: string | null;
+  /** How long in-flight requests may run after a shutdown signal */
+  shutdownTimeoutMs: number;
+}
 
-    executing.push(promise);
+const DEFAULT_CONFIG: AppConfig = {
+  databasePath: "users.db",
+  databaseTimeouts: DEFAULT_DATABASE_TIMEOUTS,
+  cache: { capacity: 10_000, ttlSeconds: 300, timeouts: DEFAULT_CACHE_TIMEOUTS },
+  logLevel: "info",
+  retry: DEFAULT_RETRY_POLICY,
+  batchConcurrency: 16,
+  traceFile: null,
+  shutdownTimeoutMs: 10_000,
+};
+
+/**
+ * Load settings from environment variables, falling back to the JSON file
+ * named by CONFIG_FILE (if set), then to the defaults.
+ *
+ * Keys are nested camelCase paths (e.g. `cache.ttlSeconds`). The environment
+ * spells them in CONSTANT_CASE (e.g. `CACHE_TTL_SECONDS`).
+ *
+ * PROBLEMS:
+ * 1. Every setting needs its own parse-and-validate call, and the result
+ *    type is only correct if each call matches the AppConfig interface
+ * 2. Problems must be collected by hand to report them all at once
+ * 3. Nothing stops code from reading process.env directly elsewhere
+ */
+function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const problems: string[] = [];
+  const file = readConfigFile(env.CONFIG_FILE, problems);
+
+  function setting<T>(
+    path: string,
+    parse: (raw: unknown) => T | undefined,
+    expected: string,
+    fallback: T
+  ): T {
+    const envName = path.replace(/([a-z])([A-Z])/g, "$1_$2").replace(/\./g, "_").toUpperCase();
+    const fromEnv = env[envName];
+    const raw = fromEnv ?? path.split(".").reduce<unknown>(
+      (value, key) => (typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+      file
+    );
+    if (raw === undefined) {
+      return fallback;
+    }
 
-    if (executing.length >= concurrencyLimit) {
-      await Promise.race(executing);
-      // Remove completed promises (simplified - real implementation needs tracking)
+    const value = parse(raw);
+    if (value === undefined) {
+      problems.push(`${fromEnv === undefined ? path : envName}: ${expected}, got ${JSON.stringify(raw)}`);
+      return fallback;
     }
+    return value;
+  }
+
+  const integer = (min: number) => (raw: unknown): number | undefined => {
+    const value = typeof raw === "string" && raw.trim() !== "" ? Number(raw) : raw;
+    return typeof value === "number" && Number.isInteger(value) && value >= min ? value : undefined;
+  };
+  const string = (raw: unknown) => (typeof raw === "string" && raw !== "" ? raw : undefined);
+  const logLevel = (raw: unknown) =>
+    raw === "debug" || raw === "info" || raw === "error" ? (raw as LogLevel) : undefined;
+
+  const config: AppConfig = {
+    databasePath: setting("database.path", string, "Expected a non-empty string", DEFAULT_CONFIG.databasePath),
+    databaseTimeouts: {
+      query: setting("database.queryTimeoutMs", integer(1), "Expected a positive integer", DEFAULT_CONFIG.databaseTimeouts.query),
+      execute: setting("database.executeTimeoutMs", integer(1), "Expected a positive integer", DEFAULT_CONFIG.databaseTimeouts.execute),
+    },
+    cache: {
+      capacity: setting("cache.capacity", integer(1), "Expected a positive integer", DEFAULT_CONFIG.cache.capacity),
+      ttlSeconds: setting("cache.ttlSeconds", integer(1), "Expected a positive integer", DEFAULT_CONFIG.cache.ttlSeconds),
+      timeouts: {
+        get: setting("cache.getTimeoutMs", integer(1), "Expected a positive integer", DEFAULT_CONFIG.cache.timeouts.get),
+        set: setting("cache.setTimeoutMs", integer(1), "Expected a positive integer", DEFAULT_CONFIG.cache.timeouts.set),
+        delete: setting("cache.deleteTimeoutMs", integer(1), "Expected a positive integer", DEFAULT_CONFIG.cache.timeouts.delete),
+      },
+    },
+    logLevel: setting("logLevel", logLevel, "Expected one of debug, info, error", DEFAULT_CONFIG.logLevel),
+    retry: {
+      maxRetries: setting("retry.maxRetries", integer(0), "Expected a non-negative integer", DEFAULT_CONFIG.retry.maxRetries),
+      baseDelayMs: setting("retry.baseDelayMs", integer(0), "Expected a non-negative integer", DEFAULT_CONFIG.retry.baseDelayMs),
+      budgetMs: setting("retry.budgetMs", integer(0), "Expected a non-negative integer", DEFAULT_CONFIG.retry.budgetMs),
+    },
+    batchConcurrency: setting("batch.concurrency", integer(1), "Expected a positive integer", DEFAULT_CONFIG.batchConcurrency),
+    traceFile: setting<string | null>("traceFile", string, "Expected a non-empty string", DEFAULT_CONFIG.traceFile),
+    shutdownTimeoutMs: setting("shutdownTimeoutMs", integer(0), "Expected a non-negative integer", DEFAULT_CONFIG.shutdownTimeoutMs),
+  };
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+function readConfigFile(path: string | undefined, problems: string[]): Record<string, unknown> {
+  if (path === undefined) {
+    return {};
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    problems.push(`CONFIG_FILE: could not read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
   }
 
-  await Promise.all(executing);
-  return results;
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    problems.push(`CONFIG_FILE: ${path} must contain a JSON object`);
+    return {};
+  }
+  return json as Record<string, unknown>;
 }
 
 // ============================================================================
@@ -518,40 +3042,46 @@ async function processWithConcurrencyLimit<T, R>(
  * 2. No compile-time verification that all dependencies are satisfied
  * 3. Testing requires manual mocking at construction time
  * 4. No clear dependency graph visualization
+ * 5. Settings used outside the wired objects (e.g. batch concurrency) are
+ *    returned for callers to pass along by hand
+ * 6. Resources opened here are released by calling close(). Nothing checks
+ *    that it is called, or that nothing uses them afterwards
  */
-function createApplication(config: {
-  databaseUrl: string;
-  cacheUrl: string;
-  logLevel: string;
-}): {
+function createApplication(config: AppConfig): {
   userController: UserController;
+  healthController: HealthController;
   userService: UserService;
+  tracer: Tracer;
+  metrics: Metrics;
+  logger: Logger;
+  config: AppConfig;
+  close: () => void;
 } {
-  // Create infrastructure (implementations not shown)
-  const logger: Logger = {
-    info: (msg, meta) => console.log(`[INFO] ${msg}`, meta),
-    error: (msg, err, meta) => console.error(`[ERROR] ${msg}`, err, meta),
-    debug: (msg, meta) => console.debug(`[DEBUG] ${msg}`, meta),
-  };
-
-  // Mock implementations for example
-  const database: Database = {
-    query: async () => [],
-    execute: async () => {},
-  };
-
-  const cache: Cache = {
-    get: async () => null,
-    set: async () => {},
-    delete: async () => {},
-  };
+  // Create infrastructure
+  const logger: Logger = new JsonLogger({ level: config.logLevel });
+  const tracer = new Tracer(config.traceFile === null ? undefined : new FileSpanExporter(config.traceFile));
+  const metrics = new Metrics();
+
+  // Kept unwrapped so that close() can reach it
+  const sqlite = new SqliteDatabase(config.databasePath);
+  const database: Database = new TimeoutDatabase(sqlite, config.databaseTimeouts);
+  const cache = new CircuitBreakerCache(
+    new TimeoutCache(
+      new MemoryCache({ capacity: config.cache.capacity, defaultTtlSeconds: config.cache.ttlSeconds }),
+      config.cache.timeouts
+    ),
+    logger
+  );
 
   // Wire dependencies
-  const userRepository = new UserRepository(database, cache, logger);
-  const userService = new UserService(userRepository);
-  const userController = new UserController(userService);
+  const userRepository = new UserRepository(database, cache, logger, tracer, metrics);
+  const userService = new UserService(userRepository, logger, config.retry);
+  const userController = new UserController(userService, metrics, { concurrency: config.batchConcurrency });
+  const healthController = new HealthController(cache, database);
+
+  const close = () => sqlite.close();
 
-  return { userController, userService };
+  return { userController, healthController, userService, tracer, metrics, logger, config, close };
 }
 
 // ============================================================================
@@ -562,14 +3092,77 @@ export {
   User,
   CreateUserInput,
   UpdateUserInput,
+  UserCursor,
+  ListUsersOptions,
+  UserPage,
+  FileFormat,
+  ImportSkipReason,
+  ImportFailureReason,
+  ImportRowResult,
+  ImportSummary,
+  ImportReport,
+  ImportOptions,
+  FieldError,
   UserNotFoundError,
   DatabaseError,
+  UniqueConstraintError,
   ValidationError,
+  ValidationErrors,
+  EmailAlreadyInUseError,
   CacheError,
+  DecodeError,
+  ConfigError,
+  TimeoutError,
+  MalformedRowError,
+  DuplicateRowError,
+  Logger,
+  SqliteDatabase,
+  MemoryCache,
+  DatabaseTimeouts,
+  CacheTimeouts,
+  DEFAULT_DATABASE_TIMEOUTS,
+  DEFAULT_CACHE_TIMEOUTS,
+  TimeoutDatabase,
+  TimeoutCache,
+  CircuitState,
+  CircuitBreakerStatus,
+  CircuitBreakerOptions,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  CircuitBreakerCache,
+  withLogContext,
+  serializeError,
+  JsonLogger,
+  SpanKind,
+  ExportedSpan,
+  SpanExporter,
+  InMemorySpanExporter,
+  FileSpanExporter,
+  Span,
+  Tracer,
+  Labels,
+  Counter,
+  Histogram,
+  Metrics,
+  BatchLoader,
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  isTransientError,
+  withRetry,
   UserRepository,
   UserService,
   UserController,
+  HealthController,
+  DependencyCheck,
+  ReadinessStatus,
+  HealthReport,
+  PROBE_TIMEOUT_MS,
+  ConcurrencyOptions,
   processUserBatch,
+  processWithConcurrencyLimit,
+  LogLevel,
+  AppConfig,
+  DEFAULT_CONFIG,
+  loadConfig,
   createApplication,
 };
 
@@ -0,0 +1,390 @@
+/**
+ * Effect-TS HTTP Server
+ *
+ * Mounts the user handlers on a Node HTTP server using @effect/platform.
+ *
+ * Note how the Database | Cache | Logger | SingleFlight requirements of
+ * every route are provided exactly once, when the server layer is built.
+ *
+ * On SIGINT or SIGTERM, NodeRuntime.runMain interrupts the program. It
+ * drains in-flight requests first, and then the layers are released in
+ * reverse order: the router is detached, the socket closes and finally the
+ * database and cache are released.
+ */
+
+import { HttpApp, HttpMiddleware, HttpRouter, HttpServer, HttpServerRequest, HttpServerResponse } from "@effect/platform"
+import { NodeHttpServer, NodeHttpServerRequest, NodeRuntime } from "@effect/platform-node"
+import { Context, Duration, Effect, Exit, FiberSet, Layer, Metric, pipe, Ref, Stream } from "effect"
+import { randomUUID } from "node:crypto"
+import { createServer, ServerResponse } from "node:http"
+import {
+  AppConfig,
+  AppLayerLive,
+  HttpRequest,
+  HttpResponse,
+  HttpStreamResponse,
+  Logger,
+  ValidationError,
+  countErrorByTag,
+  createUserHandler,
+  deleteUserHandler,
+  exportUsersHandler,
+  getUserHandler,
+  healthHandler,
+  healthzHandler,
+  httpResponsesTotal,
+  importUsersHandler,
+  listUsersHandler,
+  mapErrorToResponse,
+  prometheusMetrics,
+  readyzHandler,
+  renameUserHandler,
+  updateEmailHandler,
+  updateUserHandler,
+} from "./user-service"
+
+// ============================================================================
+// Request / Response Adapters
+// ============================================================================
+
+/**
+ * Read the request body as JSON. An empty body is passed on as undefined
+ * so that the handler's own body validation can report it.
+ */
+const readJsonBody: Effect.Effect<
+  unknown,
+  ValidationError,
+  HttpServerRequest.HttpServerRequest
+> =
+  Effect.gen(function* () {
+    const request = yield* HttpServerRequest.HttpServerRequest
+    const text = yield* pipe(
+      request.text,
+      Effect.mapError(() => new ValidationError("Unreadable request body", "body"))
+    )
+
+    if (text.length === 0) {
+      return undefined
+    }
+
+    return yield* Effect.try({
+      try: (): unknown => JSON.parse(text),
+      catch: () => new ValidationError("Request body is not valid JSON", "body"),
+    })
+  })
+
+/**
+ * Stream a response body, cutting the connection if the stream fails.
+ *
+ * The platform ends a failed body the same way as a finished one. Without
+ * this, a client could not tell a truncated export from a complete one.
+ *
+ * The finalizer only runs once a write stops waiting for the client, so an
+ * export still running at the shutdown deadline is cut by GracefulShutdown
+ * instead.
+ */
+const toStreamingResponse = (response: HttpStreamResponse) =>
+  Effect.map(HttpServerRequest.HttpServerRequest, (request) =>
+    HttpServerResponse.stream(
+      pipe(
+        response.stream,
+        Stream.encodeText,
+        Stream.ensuringWith((exit) =>
+          Exit.isSuccess(exit)
+            ? Effect.void
+            : Effect.sync(() => NodeHttpServerRequest.toServerResponse(request).destroy())
+        )
+      ),
+      { status: response.status, contentType: response.contentType }
+    )
+  )
+
+/**
+ * The request body is larger than the route accepts.
+ */
+class RequestBodyTooLargeError {
+  readonly _tag = "RequestBodyTooLargeError"
+  constructor(readonly maxBytes: number) {}
+}
+
+const maxTextBodyBytes = 10 * 1024 * 1024
+
+/**
+ * Read the request body as text, for routes that take a file, up to 10 MB.
+ *
+ * A body that declares a larger length is turned away unread. One without a
+ * declared length is counted as it arrives; past the limit the rest is
+ * discarded rather than the socket destroyed, so the 413 can still be sent.
+ */
+const readTextBody: Effect.Effect<
+  string,
+  ValidationError | RequestBodyTooLargeError,
+  HttpServerRequest.HttpServerRequest
+> =
+  Effect.flatMap(HttpServerRequest.HttpServerRequest, (request) => {
+    if (Number(request.headers["content-length"]) > maxTextBodyBytes) {
+      return Effect.fail(new RequestBodyTooLargeError(maxTextBodyBytes))
+    }
+
+    const incoming = NodeHttpServerRequest.toIncomingMessage(request)
+    return Effect.async<string, ValidationError | RequestBodyTooLargeError>((resume) => {
+      const chunks: Buffer[] = []
+      let bytes = 0
+
+      const onData = (chunk: Buffer) => {
+        bytes += chunk.length
+        if (bytes > maxTextBodyBytes) {
+          detach()
+          incoming.resume()
+          resume(Effect.fail(new RequestBodyTooLargeError(maxTextBodyBytes)))
+        } else {
+          chunks.push(chunk)
+        }
+      }
+      const onEnd = () => {
+        detach()
+        resume(Effect.succeed(Buffer.concat(chunks).toString("utf8")))
+      }
+      const onError = () => {
+        detach()
+        resume(Effect.fail(new ValidationError("Unreadable request body", "body")))
+      }
+      const detach = () => {
+        incoming.off("data", onData)
+        incoming.off("end", onEnd)
+        incoming.off("error", onError)
+      }
+
+      incoming.on("data", onData)
+      incoming.once("end", onEnd)
+      incoming.once("error", onError)
+      return Effect.sync(detach)
+    })
+  })
+
+const toServerResponse = (response: HttpResponse | HttpStreamResponse) =>
+  "stream" in response
+    ? toStreamingResponse(response)
+    : response.body === undefined
+      ? Effect.succeed(HttpServerResponse.empty({ status: response.status }))
+      : HttpServerResponse.json(response.body, { status: response.status })
+
+/**
+ * Adapt a framework-independent handler to a router route. The body is
+ * read as JSON unless another reader is given.
+ *
+ * ADVANTAGE: The handler's requirements flow into the route's type, so the
+ * router cannot be served until Database | Cache | Logger | SingleFlight |
+ * CacheCircuitBreaker are provided.
+ */
+const route = <R>(
+  handler: (req: HttpRequest) => Effect.Effect<HttpResponse | HttpStreamResponse, never, R>,
+  readBody: Effect.Effect<
+    unknown,
+    ValidationError | RequestBodyTooLargeError,
+    HttpServerRequest.HttpServerRequest
+  > = readJsonBody
+) =>
+  Effect.flatMap(HttpRouter.RouteContext, (context) =>
+    pipe(
+      Effect.all({
+        params: HttpRouter.params,
+        query: HttpServerRequest.ParsedSearchParams,
+        body: readBody,
+      }),
+      Effect.flatMap(({ params, query, body }) =>
+        handler({ params, query, body })
+      ),
+      Effect.catchTag("RequestBodyTooLargeError", (error) =>
+        Effect.succeed({ status: 413, body: { error: "Request body is too large", maxBytes: error.maxBytes } })
+      ),
+      Effect.tapError(countErrorByTag),
+      Effect.catchTag("ValidationError", (error) =>
+        Effect.succeed(mapErrorToResponse(error))
+      ),
+      Effect.tap((response) =>
+        Metric.increment(Metric.tagged(httpResponsesTotal, "status", String(response.status)))
+      ),
+      Effect.flatMap(toServerResponse),
+      // Attached to every log entry written while handling this request
+      Effect.annotateLogs({
+        requestId: randomUUID(),
+        route: `${context.route.method} ${context.route.path}`,
+        ...(context.params.id === undefined ? {} : { userId: context.params.id }),
+      })
+    )
+  )
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+const UserRouter = HttpRouter.empty.pipe(
+  HttpRouter.get("/users", route(listUsersHandler)),
+  HttpRouter.get("/users/export", route(exportUsersHandler)),
+  HttpRouter.post("/users/import", route(importUsersHandler, readTextBody)),
+  HttpRouter.get("/users/:id", route(getUserHandler)),
+  HttpRouter.post("/users", route(createUserHandler)),
+  HttpRouter.patch("/users/:id/email", route(updateEmailHandler)),
+  HttpRouter.patch("/users/:id/name", route(renameUserHandler)),
+  HttpRouter.put("/users/:id", route(updateUserHandler)),
+  HttpRouter.del("/users/:id", route(deleteUserHandler)),
+  HttpRouter.get("/health", route(healthHandler)),
+  HttpRouter.get("/healthz", route(healthzHandler)),
+  HttpRouter.get("/readyz", route(readyzHandler)),
+  HttpRouter.get(
+    "/metrics",
+    Effect.map(prometheusMetrics, (text) =>
+      HttpServerResponse.text(text, { contentType: "text/plain; version=0.0.4; charset=utf-8" })
+    )
+  )
+)
+
+// ============================================================================
+// Graceful Shutdown
+// ============================================================================
+
+/**
+ * Tracks the requests being handled, so shutdown can wait for them.
+ */
+class GracefulShutdown extends Context.Tag("GracefulShutdown")<
+  GracefulShutdown,
+  {
+    /**
+     * Run a request, or reject it with 503 once draining has begun. The
+     * response, including a streamed body, is written on the same fiber, so
+     * the drain waits for an export to finish
+     */
+    readonly track: <E, R>(app: HttpApp.Default<E, R>) => HttpApp.Default<E, R>
+    /**
+     * Stop taking requests and wait for in-flight ones until the shutdown
+     * timeout, then close their connections and interrupt whatever is still
+     * running
+     */
+    readonly drain: Effect.Effect<void>
+  }
+>() {}
+
+const GracefulShutdownLive: Layer.Layer<GracefulShutdown, never, AppConfig | Logger> = Layer.scoped(
+  GracefulShutdown,
+  Effect.gen(function* () {
+    const logger = yield* Logger
+    const { shutdownTimeout } = yield* AppConfig
+    const fibers = yield* FiberSet.make()
+    const draining = yield* Ref.make(false)
+    // Kept until the client has the whole response, not just until the
+    // handler returns
+    const responses = new Set<ServerResponse>()
+
+    const rejected = HttpServerResponse.unsafeJson(
+      { error: "Server is shutting down" },
+      { status: 503, headers: { connection: "close" } }
+    )
+
+    const track = <E, R>(app: HttpApp.Default<E, R>): HttpApp.Default<E, R> =>
+      Effect.flatMap(Ref.get(draining), (isDraining) =>
+        isDraining
+          ? Effect.succeed(rejected)
+          : Effect.withFiberRuntime((fiber) =>
+              Effect.flatMap(HttpServerRequest.HttpServerRequest, (request) => {
+                const response = NodeHttpServerRequest.toServerResponse(request)
+                responses.add(response)
+                response.once("close", () => responses.delete(response))
+                return Effect.zipRight(FiberSet.add(fibers, fiber), app)
+              })
+            )
+      )
+
+    return {
+      track,
+      drain: Effect.gen(function* () {
+        yield* Ref.set(draining, true)
+        yield* logger.info("Draining in-flight requests", {
+          pending: yield* FiberSet.size(fibers),
+          deadline: Duration.format(shutdownTimeout),
+        })
+
+        // Shutdown runs uninterruptibly, so the wait has to opt back in for
+        // the timeout to be able to cut it short
+        const drained = yield* pipe(
+          FiberSet.awaitEmpty(fibers),
+          Effect.interruptible,
+          Effect.timeout(shutdownTimeout),
+          Effect.isSuccess
+        )
+        if (!drained) {
+          yield* logger.error("Shutdown deadline passed, interrupting in-flight requests", undefined, {
+            remaining: yield* FiberSet.size(fibers),
+          })
+          // A fiber writing to a slow client waits for the socket to drain,
+          // so the connections are cut first and the fibers are not awaited
+          yield* Effect.sync(() => responses.forEach((response) => response.destroy()))
+          yield* Effect.forkDaemon(FiberSet.clear(fibers))
+        }
+      }),
+    }
+  })
+)
+
+const trackRequests = HttpMiddleware.make((app) =>
+  Effect.flatMap(GracefulShutdown, (shutdown) => shutdown.track(app))
+)
+
+// ============================================================================
+// Server Layer
+// ============================================================================
+
+/**
+ * Logs the address the server is listening on through the JSON Logger.
+ */
+const LogAddressLive: Layer.Layer<never, never, HttpServer.HttpServer | Logger> = Layer.effectDiscard(
+  Effect.gen(function* () {
+    const server = yield* HttpServer.HttpServer
+    const logger = yield* Logger
+    yield* logger.info("Listening", { url: HttpServer.formatAddress(server.address) })
+  })
+)
+
+/**
+ * The complete HTTP application.
+ *
+ * ADVANTAGE: Application services are provided here, once, for all routes.
+ * Forgetting one is a compile error rather than a runtime crash.
+ */
+const HttpLive = pipe(
+  UserRouter,
+  HttpServer.serve(trackRequests),
+  Layer.merge(LogAddressLive),
+  Layer.provideMerge(GracefulShutdownLive),
+  Layer.provide(NodeHttpServer.layer(createServer, { port: 3000 })),
+  Layer.provide(AppLayerLive)
+)
+
+/**
+ * Serve until interrupted, then drain before any layer is released.
+ *
+ * ADVANTAGE: Layers are released in reverse order of construction, so once
+ * the drain is done the socket is closed before the database and cache
+ * they depend on.
+ */
+const main = pipe(
+  GracefulShutdown,
+  Effect.flatMap((shutdown) => Effect.onInterrupt(Effect.never, () => shutdown.drain)),
+  Effect.provide(HttpLive)
+)
+
+// To run: npx tsx server.ts
+NodeRuntime.runMain(main)
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export {
+  UserRouter,
+  GracefulShutdown,
+  GracefulShutdownLive,
+  trackRequests,
+  HttpLive,
+  main,
+}
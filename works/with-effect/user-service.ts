@@ -7,28 +7,118 @@
  * Note how effects and errors are explicit in type signatures.
  */
 
-import { Effect, Context, Layer, pipe, Option, Schedule, Duration, Console } from "effect"
+import { Effect, Context, Layer, pipe, Option, Schedule, Duration, Console, Schema, ParseResult, Array as Arr, Exit, FiberRef, Ref, Clock, Deferred, Cause, Either, Request, RequestBlock, RequestResolver, Config, ConfigError, ConfigProvider, Tracer, Metric, MetricBoundaries, MetricState, Stream, Chunk } from "effect"
+import Sqlite from "better-sqlite3"
+import { randomBytes } from "node:crypto"
+import { appendFileSync, readFileSync } from "node:fs"
 
 // ============================================================================
-// Domain Types
+// Domain Types (Schemas double as runtime decoders)
 // ============================================================================
 
-interface User {
-  readonly id: string
-  readonly email: string
-  readonly name: string
-  readonly createdAt: Date
-}
+/**
+ * A user as stored in the users table.
+ *
+ * ADVANTAGE: The schema is both the static type and the runtime decoder.
+ * The `created_at` column (ISO-8601 text) is renamed and parsed into a Date,
+ * so database rows never reach domain code unchecked.
+ */
+const User = Schema.Struct({
+  id: Schema.String,
+  email: Schema.String,
+  name: Schema.String,
+  createdAt: pipe(Schema.propertySignature(Schema.Date), Schema.fromKey("created_at")),
+})
+interface User extends Schema.Schema.Type<typeof User> {}
 
-interface CreateUserInput {
-  readonly email: string
-  readonly name: string
-}
+const CreateUserInput = Schema.Struct({
+  email: Schema.String,
+  name: Schema.String,
+})
+interface CreateUserInput extends Schema.Schema.Type<typeof CreateUserInput> {}
 
-interface UpdateUserInput {
-  readonly email?: string
-  readonly name?: string
-}
+const UpdateUserInput = Schema.Struct({
+  email: Schema.optional(Schema.String),
+  name: Schema.optional(Schema.String),
+})
+interface UpdateUserInput extends Schema.Schema.Type<typeof UpdateUserInput> {}
+
+const ChangeEmailInput = Schema.Struct({
+  email: Schema.String,
+})
+interface ChangeEmailInput extends Schema.Schema.Type<typeof ChangeEmailInput> {}
+
+const RenameUserInput = Schema.Struct({
+  name: Schema.String,
+})
+interface RenameUserInput extends Schema.Schema.Type<typeof RenameUserInput> {}
+
+/**
+ * Position just after the last user of a page, in (createdAt, id) order.
+ */
+const UserCursor = Schema.Struct({
+  createdAt: Schema.Date,
+  id: Schema.String,
+})
+interface UserCursor extends Schema.Schema.Type<typeof UserCursor> {}
+
+/**
+ * A cursor as handed to clients: base64url-encoded JSON.
+ *
+ * ADVANTAGE: Clients treat it as opaque, but it is decoded and checked like
+ * any other input, so a tampered cursor is a ValidationError, not bad SQL.
+ */
+const UserCursorFromString = pipe(
+  Schema.StringFromBase64Url,
+  Schema.compose(Schema.parseJson(UserCursor))
+).annotations({
+  message: () => ({ message: "Expected a cursor returned by a previous page", override: true }),
+})
+
+/**
+ * Path parameters of the /users/:id routes.
+ */
+const UserIdParams = Schema.Struct({
+  id: Schema.String,
+})
+
+/**
+ * Query parameters of GET /users. They all arrive as text, so the limit
+ * and the created-at bounds are parsed here.
+ */
+const ListUsersQuery = Schema.Struct({
+  cursor: Schema.optionalWith(UserCursorFromString, { exact: true }),
+  limit: Schema.optionalWith(pipe(Schema.NumberFromString, Schema.int(), Schema.between(1, 100)), {
+    exact: true,
+    default: () => 20,
+  }),
+  q: Schema.optionalWith(pipe(Schema.String, Schema.minLength(1)), { exact: true }),
+  createdAfter: Schema.optionalWith(Schema.Date, { exact: true }),
+  createdBefore: Schema.optionalWith(Schema.Date, { exact: true }),
+})
+interface ListUsersQuery extends Schema.Schema.Type<typeof ListUsersQuery> {}
+
+/**
+ * File formats users can be exported to and imported from.
+ */
+const FileFormat = Schema.Literal("ndjson", "csv")
+type FileFormat = Schema.Schema.Type<typeof FileFormat>
+
+/**
+ * Query parameters of GET /users/export.
+ */
+const ExportUsersQuery = Schema.Struct({
+  format: Schema.optionalWith(FileFormat, { exact: true, default: () => "ndjson" as const }),
+})
+interface ExportUsersQuery extends Schema.Schema.Type<typeof ExportUsersQuery> {}
+
+/**
+ * Query parameters of POST /users/import.
+ */
+const ImportUsersQuery = Schema.Struct({
+  format: Schema.optionalWith(FileFormat, { exact: true, default: () => "ndjson" as const }),
+})
+interface ImportUsersQuery extends Schema.Schema.Type<typeof ImportUsersQuery> {}
 
 // ============================================================================
 // Error Types (Explicit in type signatures)
@@ -52,14 +142,50 @@ class DatabaseError {
   ) {}
 }
 
+/**
+ * A write was rejected by a unique constraint in the database.
+ */
+class UniqueConstraintError {
+  readonly _tag = "UniqueConstraintError"
+  constructor(
+    readonly message: string,
+    readonly cause?: unknown
+  ) {}
+}
+
+/**
+ * A single problem with one field of an input.
+ */
+interface FieldError {
+  readonly field: string
+  readonly message: string
+}
+
 class ValidationError {
   readonly _tag = "ValidationError"
   constructor(
     readonly message: string,
-    readonly field?: string
+    readonly field?: string,
+    readonly fieldErrors: ReadonlyArray<FieldError> = field ? [{ field, message }] : []
   ) {}
 }
 
+/**
+ * Every validation failure from a single input, reported together.
+ */
+class ValidationErrors {
+  readonly _tag = "ValidationErrors"
+  constructor(readonly errors: ReadonlyArray<ValidationError>) {}
+}
+
+/**
+ * Another user already owns the requested email address.
+ */
+class EmailAlreadyInUseError {
+  readonly _tag = "EmailAlreadyInUseError"
+  constructor(readonly email: string) {}
+}
+
 class CacheError {
   readonly _tag = "CacheError"
   constructor(
@@ -68,8 +194,65 @@ class CacheError {
   ) {}
 }
 
+class DecodeError {
+  readonly _tag = "DecodeError"
+  constructor(
+    readonly message: string,
+    readonly cause?: unknown
+  ) {}
+}
+
+/**
+ * The configuration file named by CONFIG_FILE could not be read or parsed.
+ */
+class ConfigFileError {
+  readonly _tag = "ConfigFileError"
+  constructor(
+    readonly path: string,
+    readonly cause?: unknown
+  ) {}
+}
+
+/**
+ * A service call did not finish within its configured timeout.
+ */
+class TimeoutError {
+  readonly _tag = "TimeoutError"
+  constructor(
+    readonly operation: string,
+    readonly timeoutMs: number
+  ) {}
+}
+
+/**
+ * A record of an import file that could not be read as a user.
+ */
+class MalformedRowError {
+  readonly _tag = "MalformedRowError"
+  constructor(readonly message: string) {}
+}
+
+/**
+ * A record of an import file repeats an email from an earlier record.
+ */
+class DuplicateRowError {
+  readonly _tag = "DuplicateRowError"
+  constructor(
+    readonly email: string,
+    readonly firstLine: number
+  ) {}
+}
+
 // Union type of all possible errors in the user domain
-type UserError = UserNotFoundError | DatabaseError | ValidationError | CacheError
+type UserError =
+  | UserNotFoundError
+  | DatabaseError
+  | ValidationError
+  | ValidationErrors
+  | EmailAlreadyInUseError
+  | CacheError
+  | DecodeError
+  | TimeoutError
 
 // ============================================================================
 // Service Definitions (Dependencies are explicit via Context.Tag)
@@ -80,24 +263,67 @@ type UserError = UserNotFoundError | DatabaseError | ValidationError | CacheErro
  * 
  * ADVANTAGE: The Requirements type (R) in Effect shows exactly what
  * dependencies a function needs to execute.
+ *
+ * `transaction` runs an effect atomically: it commits if the effect succeeds
+ * and rolls back if it fails or is interrupted. The wrapped effect keeps its
+ * own error and requirement types.
  */
 class Database extends Context.Tag("Database")<
   Database,
   {
-    readonly query: <T>(sql: string, params: unknown[]) => Effect.Effect<T[], DatabaseError>
-    readonly execute: (sql: string, params: unknown[]) => Effect.Effect<void, DatabaseError>
+    readonly query: <T>(sql: string, params: unknown[]) => Effect.Effect<T[], DatabaseError | TimeoutError>
+    readonly execute: (sql: string, params: unknown[]) => Effect.Effect<void, DatabaseError | UniqueConstraintError | TimeoutError>
+    readonly transaction: <A, E, R>(effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E | DatabaseError, R>
+    /** True when run from inside a transaction */
+    readonly inTransaction: Effect.Effect<boolean>
+    /** Rows of a query, read as the stream is pulled rather than all at once */
+    readonly stream: <T>(sql: string, params: unknown[]) => Stream.Stream<T, DatabaseError>
   }
 >() {}
 
+/**
+ * Counters describing how well the cache is doing.
+ */
+interface CacheStats {
+  readonly hits: number
+  readonly misses: number
+  readonly evictions: number
+  readonly size: number
+}
+
 /**
  * Cache service interface.
  */
 class Cache extends Context.Tag("Cache")<
   Cache,
   {
-    readonly get: <T>(key: string) => Effect.Effect<Option.Option<T>, CacheError>
-    readonly set: <T>(key: string, value: T, ttlSeconds?: number) => Effect.Effect<void, CacheError>
-    readonly delete: (key: string) => Effect.Effect<void, CacheError>
+    readonly get: <T>(key: string) => Effect.Effect<Option.Option<T>, CacheError | TimeoutError>
+    readonly set: <T>(key: string, value: T, ttlSeconds?: number) => Effect.Effect<void, CacheError | TimeoutError>
+    readonly delete: (key: string) => Effect.Effect<void, CacheError | TimeoutError>
+    readonly stats: Effect.Effect<CacheStats>
+  }
+>() {}
+
+/**
+ * "closed" lets calls through, "open" short-circuits them, and "half-open"
+ * lets a single trial call through to decide which of the two comes next.
+ */
+type CircuitState = "closed" | "open" | "half-open"
+
+interface CircuitBreakerStatus {
+  readonly state: CircuitState
+  readonly consecutiveFailures: number
+  /** When the circuit last opened, in epoch milliseconds */
+  readonly openedAt: Option.Option<number>
+}
+
+/**
+ * Read-only view of the circuit breaker guarding the Cache.
+ */
+class CacheCircuitBreaker extends Context.Tag("CacheCircuitBreaker")<
+  CacheCircuitBreaker,
+  {
+    readonly status: Effect.Effect<CircuitBreakerStatus>
   }
 >() {}
 
@@ -113,35 +339,278 @@ class Logger extends Context.Tag("Logger")<
   }
 >() {}
 
+type LogLevel = "debug" | "info" | "error"
+
+/**
+ * Application settings, loaded and validated once at startup.
+ */
+class AppConfig extends Context.Tag("AppConfig")<
+  AppConfig,
+  {
+    readonly databasePath: string
+    readonly databaseTimeouts: DatabaseTimeouts
+    readonly cache: {
+      readonly capacity: number
+      readonly ttl: Duration.Duration
+      readonly timeouts: CacheTimeouts
+    }
+    readonly logLevel: LogLevel
+    readonly retry: RetryPolicy
+    readonly batchConcurrency: number
+    /** Where to append finished spans as JSON lines; tracing is off if unset */
+    readonly traceFile: Option.Option<string>
+    /** How long in-flight requests may run after a shutdown signal */
+    readonly shutdownTimeout: Duration.Duration
+  }
+>() {}
+
+/**
+ * A finished span, with the field names and enum codes of the OTLP/JSON
+ * span format. Attributes are kept as a plain object.
+ */
+interface ExportedSpan {
+  readonly traceId: string
+  readonly spanId: string
+  readonly parentSpanId: string | undefined
+  readonly name: string
+  /** 1 internal, 2 server, 3 client, 4 producer, 5 consumer */
+  readonly kind: number
+  readonly startTimeUnixNano: string
+  readonly endTimeUnixNano: string
+  readonly attributes: Record<string, unknown>
+  readonly events: ReadonlyArray<{
+    readonly name: string
+    readonly timeUnixNano: string
+    readonly attributes: Record<string, unknown>
+  }>
+  /** 1 ok, 2 error */
+  readonly status: { readonly code: number; readonly message?: string }
+}
+
+/**
+ * Receives every span as it ends.
+ *
+ * `export` is run synchronously from the tracer, so implementations must
+ * not suspend.
+ */
+class SpanExporter extends Context.Tag("SpanExporter")<
+  SpanExporter,
+  {
+    readonly export: (span: ExportedSpan) => Effect.Effect<void>
+  }
+>() {}
+
+/**
+ * Spans collected by the in-memory exporter, for tests.
+ */
+class RecordedSpans extends Context.Tag("RecordedSpans")<
+  RecordedSpans,
+  {
+    readonly spans: Effect.Effect<ReadonlyArray<ExportedSpan>>
+    readonly clear: Effect.Effect<void>
+  }
+>() {}
+
+/**
+ * Shares one in-flight effect between concurrent callers with the same key.
+ *
+ * ADVANTAGE: Interrupting one caller never fails the others - if the caller
+ * running the shared effect is interrupted, a waiting caller takes over.
+ */
+class SingleFlight extends Context.Tag("SingleFlight")<
+  SingleFlight,
+  {
+    readonly run: <A, E, R>(key: string, effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>
+  }
+>() {}
+
+// ============================================================================
+// Metrics - Declared Once, Recorded Anywhere
+// ============================================================================
+
+// ADVANTAGE: Metrics live in Effect's global registry, so recording one is
+// just another effect - no registry has to be passed to the code that
+// records it.
+
+const cacheHitsTotal = Metric.counter("user_cache_hits_total", {
+  description: "findUserById lookups answered by the cache",
+})
+
+const cacheMissesTotal = Metric.counter("user_cache_misses_total", {
+  description: "findUserById lookups that went to the database",
+})
+
+const dbQueryDurationSeconds = Metric.histogram(
+  "db_query_duration_seconds",
+  MetricBoundaries.exponential({ start: 0.0005, factor: 2, count: 14 }),
+  "Time taken by each SQL statement, including any wait for the lock"
+)
+
+const userErrorsTotal = Metric.counter("user_errors_total", {
+  description: "Domain errors handled by the HTTP layer, by _tag",
+})
+
+const httpResponsesTotal = Metric.counter("http_responses_total", {
+  description: "HTTP responses, by status code",
+})
+
+const countErrorByTag = (error: UserError): Effect.Effect<void> =>
+  Metric.increment(Metric.tagged(userErrorsTotal, "tag", error._tag))
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+
+const formatLabels = (labels: ReadonlyArray<readonly [string, string]>): string =>
+  labels.length === 0
+    ? ""
+    : `{${labels.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`
+
+/**
+ * Every registered metric in the Prometheus text exposition format.
+ *
+ * Only counters, gauges and histograms are rendered - this service records
+ * no frequencies or summaries.
+ */
+const prometheusMetrics: Effect.Effect<string> = Effect.map(Metric.snapshot, (pairs) => {
+  const families = new Map<string, { type: string; help: string | undefined; samples: Array<string> }>()
+
+  for (const { metricKey, metricState } of pairs) {
+    const labels = metricKey.tags.map((tag) => [tag.key, tag.value] as const)
+    const family = (type: string) => {
+      const existing = families.get(metricKey.name)
+      if (existing !== undefined) {
+        return existing.samples
+      }
+      const samples: Array<string> = []
+      families.set(metricKey.name, { type, help: Option.getOrUndefined(metricKey.description), samples })
+      return samples
+    }
+
+    if (MetricState.isCounterState(metricState)) {
+      family("counter").push(`${metricKey.name}${formatLabels(labels)} ${metricState.count}`)
+    } else if (MetricState.isGaugeState(metricState)) {
+      family("gauge").push(`${metricKey.name}${formatLabels(labels)} ${metricState.value}`)
+    } else if (MetricState.isHistogramState(metricState)) {
+      const samples = family("histogram")
+      // Effect's buckets are already cumulative, ending with +Inf
+      for (const [boundary, count] of metricState.buckets) {
+        const le = Number.isFinite(boundary) ? String(boundary) : "+Inf"
+        samples.push(`${metricKey.name}_bucket${formatLabels([...labels, ["le", le]])} ${count}`)
+      }
+      samples.push(`${metricKey.name}_sum${formatLabels(labels)} ${metricState.sum}`)
+      samples.push(`${metricKey.name}_count${formatLabels(labels)} ${metricState.count}`)
+    }
+  }
+
+  return Array.from(families, ([name, { type, help, samples }]) =>
+    [
+      ...(help === undefined ? [] : [`# HELP ${name} ${help}`]),
+      `# TYPE ${name} ${type}`,
+      ...samples,
+    ].join("\n")
+  ).join("\n") + "\n"
+})
+
 // ============================================================================
 // User Repository - Data Access Layer
 // ============================================================================
 
+/**
+ * Decode a raw users row into a domain User.
+ */
+const decodeUserRow = (row: unknown): Effect.Effect<User, DecodeError> =>
+  pipe(
+    Schema.decodeUnknown(User)(row),
+    Effect.mapError((error) => new DecodeError("Invalid user row", error))
+  )
+
+/**
+ * A batchable request for one user by id.
+ */
+interface GetUserById extends Request.Request<User, UserNotFoundError | DatabaseError | DecodeError | TimeoutError> {
+  readonly _tag: "GetUserById"
+  readonly id: string
+}
+const GetUserById = Request.tagged<GetUserById>("GetUserById")
+
+/**
+ * Resolves every GetUserById request in a batch with a single query.
+ *
+ * ADVANTAGE: Callers still ask for one user at a time. Requests issued
+ * together (e.g. by Effect.forEach with batching) are collected by the
+ * runtime and handed to this resolver as one batch.
+ */
+const GetUserByIdResolver = pipe(
+  RequestResolver.makeBatched((requests: ReadonlyArray<GetUserById>) =>
+    Effect.gen(function* () {
+      const db = yield* Database
+      const ids = requests.map((request) => request.id)
+
+      const rows = yield* db.query<{ readonly id?: unknown }>(
+        `SELECT * FROM users WHERE id IN (${ids.map(() => "?").join(", ")})`,
+        ids
+      )
+      const rowsById = new Map(rows.map((row) => [row.id, row]))
+
+      // Each request succeeds or fails on its own
+      yield* Effect.forEach(
+        requests,
+        (request) => {
+          const row = rowsById.get(request.id)
+          return Request.completeEffect(
+            request,
+            row === undefined ? Effect.fail(new UserNotFoundError(request.id)) : decodeUserRow(row)
+          )
+        },
+        { discard: true }
+      )
+    }).pipe(
+      // A failed query fails every request in the batch
+      Effect.catchAll((error) =>
+        Effect.forEach(
+          requests,
+          (request) => Request.completeEffect(request, Effect.fail(error)),
+          { discard: true }
+        )
+      ),
+      // One batch serves many callers, so it is traced under its own root span
+      Effect.withSpan("GetUserByIdResolver", { attributes: { "batch.size": requests.length } })
+    )
+  ),
+  RequestResolver.contextFromServices(Database)
+)
+
 /**
  * Find a user by ID with caching.
  * 
  * ADVANTAGE: The type signature tells us everything:
  * - Returns: User
- * - May fail with: UserNotFoundError | DatabaseError | CacheError
- * - Requires: Database | Cache | Logger services
+ * - May fail with: UserNotFoundError | DatabaseError | DecodeError | CacheError | TimeoutError
+ * - Requires: Database | Cache | Logger | SingleFlight services
  */
 const findUserById = (id: string): Effect.Effect<
   User,
-  UserNotFoundError | DatabaseError | CacheError,
-  Database | Cache | Logger
+  UserNotFoundError | DatabaseError | DecodeError | CacheError | TimeoutError,
+  Database | Cache | Logger | SingleFlight
 > =>
   Effect.gen(function* () {
+    const db = yield* Database
     const logger = yield* Logger
     const cache = yield* Cache
-    const db = yield* Database
+    const singleFlight = yield* SingleFlight
 
     yield* logger.debug("Finding user by ID", { userId: id })
 
+    // The shared lookups below would wait for the lock this fiber holds
+    if (yield* db.inTransaction) {
+      return yield* findUserByIdInTransaction(id)
+    }
+
     // Try cache first
     const cached = yield* pipe(
       cache.get<User>(`user:${id}`),
-      // Recover from cache errors by treating as cache miss
-      Effect.catchTag("CacheError", (error) =>
+      // Recover from cache errors and timeouts by treating as cache miss
+      Effect.catchAll((error) =>
         Effect.gen(function* () {
           yield* logger.error("Cache error while fetching user", error, { userId: id })
           return Option.none<User>()
@@ -149,40 +618,151 @@ const findUserById = (id: string): Effect.Effect<
       )
     )
 
+    yield* Effect.annotateCurrentSpan("cache.hit", Option.isSome(cached))
+    yield* Metric.increment(Option.isSome(cached) ? cacheHitsTotal : cacheMissesTotal)
+
     if (Option.isSome(cached)) {
       yield* logger.debug("User found in cache", { userId: id })
       return cached.value
     }
 
-    // Query database
-    const results = yield* db.query<User>(
-      "SELECT * FROM users WHERE id = ?",
-      [id]
+    // Concurrent misses for the same id share one query and one cache write
+    return yield* singleFlight.run(
+      `user:${id}`,
+      Effect.gen(function* () {
+        // Query database, batched with any concurrent lookups
+        const user = yield* Effect.request(GetUserById({ id }), GetUserByIdResolver)
+
+        // Cache the result for the configured TTL, ignoring cache errors and timeouts
+        yield* pipe(
+          cache.set(`user:${id}`, user),
+          Effect.catchAll((error) =>
+            logger.error("Failed to cache user", error, { userId: id })
+          )
+        )
+
+        return user
+      })
     )
+  }).pipe(Effect.withSpan("findUserById", { attributes: { "user.id": id } }))
 
-    if (results.length === 0) {
+/**
+ * Find a user by ID inside a transaction, straight from the database.
+ *
+ * The cache, single-flight and batching are shared with callers outside the
+ * transaction. A lookup started by one of them waits for the connection the
+ * transaction holds, so joining it would deadlock.
+ */
+const findUserByIdInTransaction = (id: string): Effect.Effect<
+  User,
+  UserNotFoundError | DatabaseError | DecodeError | TimeoutError,
+  Database
+> =>
+  Effect.gen(function* () {
+    const db = yield* Database
+    const rows = yield* db.query<unknown>("SELECT * FROM users WHERE id = ?", [id])
+    if (rows.length === 0) {
       return yield* Effect.fail(new UserNotFoundError(id))
     }
+    return yield* decodeUserRow(rows[0])
+  }).pipe(Effect.withSpan("findUserByIdInTransaction", { attributes: { "user.id": id } }))
 
-    const user = results[0]
+/**
+ * Filters and page bounds for listUsers. Both created-at bounds are
+ * exclusive.
+ */
+interface ListUsersOptions {
+  readonly after?: UserCursor
+  readonly limit: number
+  /** Matches the start of the name or the email, ignoring ASCII case */
+  readonly prefix?: string
+  readonly createdAfter?: Date
+  readonly createdBefore?: Date
+}
 
-    // Cache the result, ignoring cache errors
-    yield* pipe(
-      cache.set(`user:${id}`, user, 300),
-      Effect.catchTag("CacheError", (error) =>
-        logger.error("Failed to cache user", error, { userId: id })
-      )
+/**
+ * One page of users, and where the next page starts if there is one.
+ */
+interface UserPage {
+  readonly users: ReadonlyArray<User>
+  readonly nextCursor: Option.Option<UserCursor>
+}
+
+const escapeLikePattern = (text: string): string => text.replace(/[\\%_]/g, "\\$&")
+
+/**
+ * List users in creation order, one page at a time.
+ *
+ * Pages are keyed on (created_at, id) rather than an offset, so a cursor
+ * keeps its place while users are created or deleted.
+ */
+const listUsers = (options: ListUsersOptions): Effect.Effect<
+  UserPage,
+  DatabaseError | DecodeError | TimeoutError,
+  Database | Logger
+> =>
+  Effect.gen(function* () {
+    const logger = yield* Logger
+    const db = yield* Database
+
+    yield* logger.debug("Listing users", { limit: options.limit, prefix: options.prefix })
+
+    const conditions: string[] = []
+    const params: unknown[] = []
+    if (options.after !== undefined) {
+      conditions.push("(created_at > ? OR (created_at = ? AND id > ?))")
+      params.push(options.after.createdAt, options.after.createdAt, options.after.id)
+    }
+    if (options.prefix !== undefined) {
+      const pattern = `${escapeLikePattern(options.prefix)}%`
+      conditions.push("(name LIKE ? ESCAPE '\\' OR email LIKE ? ESCAPE '\\')")
+      params.push(pattern, pattern)
+    }
+    if (options.createdAfter !== undefined) {
+      conditions.push("created_at > ?")
+      params.push(options.createdAfter)
+    }
+    if (options.createdBefore !== undefined) {
+      conditions.push("created_at < ?")
+      params.push(options.createdBefore)
+    }
+
+    // One extra row tells whether another page follows
+    const rows = yield* db.query<unknown>(
+      `SELECT * FROM users${conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : ""}` +
+        " ORDER BY created_at, id LIMIT ?",
+      [...params, options.limit + 1]
     )
+    const users = yield* Effect.forEach(rows.slice(0, options.limit), decodeUserRow)
+    const last = users[users.length - 1]
 
-    return user
-  })
+    return {
+      users,
+      nextCursor:
+        rows.length > options.limit && last !== undefined
+          ? Option.some({ createdAt: last.createdAt, id: last.id })
+          : Option.none(),
+    }
+  }).pipe(Effect.withSpan("listUsers", { attributes: { "page.limit": options.limit } }))
+
+/**
+ * Every user in creation order, decoded as the rows are read.
+ *
+ * ADVANTAGE: The stream is a value - nothing is read until it is run, and
+ * whatever it opens is released however the run ends.
+ */
+const streamUsers: Stream.Stream<User, DatabaseError | DecodeError, Database> = pipe(
+  Effect.map(Database, (db) => db.stream<unknown>("SELECT * FROM users ORDER BY created_at, id", [])),
+  Stream.unwrap,
+  Stream.mapEffect(decodeUserRow)
+)
 
 /**
  * Find a user by email.
  */
 const findUserByEmail = (email: string): Effect.Effect<
   Option.Option<User>,
-  DatabaseError,
+  DatabaseError | DecodeError | TimeoutError,
   Database | Logger
 > =>
   Effect.gen(function* () {
@@ -191,23 +771,27 @@ const findUserByEmail = (email: string): Effect.Effect<
 
     yield* logger.debug("Finding user by email", { email })
 
-    const results = yield* db.query<User>(
+    const results = yield* db.query<unknown>(
       "SELECT * FROM users WHERE email = ?",
       [email]
     )
 
-    return results.length > 0 ? Option.some(results[0]) : Option.none()
-  })
+    if (results.length === 0) {
+      return Option.none()
+    }
+
+    return Option.some(yield* decodeUserRow(results[0]))
+  }).pipe(Effect.withSpan("findUserByEmail"))
 
 /**
  * Create a new user.
  * 
  * Type signature clearly shows:
- * - May fail with ValidationError (duplicate email) or DatabaseError
+ * - May fail with EmailAlreadyInUseError, DatabaseError or DecodeError
  */
 const createUser = (input: CreateUserInput): Effect.Effect<
   User,
-  ValidationError | DatabaseError,
+  EmailAlreadyInUseError | DatabaseError | DecodeError | TimeoutError,
   Database | Logger
 > =>
   Effect.gen(function* () {
@@ -216,33 +800,47 @@ const createUser = (input: CreateUserInput): Effect.Effect<
 
     yield* logger.info("Creating new user", { email: input.email })
 
-    // Check for duplicate email
-    const existing = yield* findUserByEmail(input.email)
-    if (Option.isSome(existing)) {
-      return yield* Effect.fail(new ValidationError("Email already in use", "email"))
-    }
-
-    const user: User = {
-      id: crypto.randomUUID(),
-      email: input.email,
-      name: input.name,
-      createdAt: new Date(),
-    }
-
-    yield* db.execute(
-      "INSERT INTO users (id, email, name, created_at) VALUES (?, ?, ?, ?)",
-      [user.id, user.email, user.name, user.createdAt]
+    // Check and insert atomically so concurrent registrations cannot race
+    return yield* db.transaction(
+      Effect.gen(function* () {
+        // Check for duplicate email
+        const existing = yield* findUserByEmail(input.email)
+        if (Option.isSome(existing)) {
+          return yield* Effect.fail(new EmailAlreadyInUseError(input.email))
+        }
+
+        const user: User = {
+          id: crypto.randomUUID(),
+          email: input.email,
+          name: input.name,
+          createdAt: new Date(),
+        }
+
+        // The unique index on email still guards writers that bypass
+        // this function
+        yield* Effect.annotateCurrentSpan("user.id", user.id)
+
+        yield* pipe(
+          db.execute(
+            "INSERT INTO users (id, email, name, created_at) VALUES (?, ?, ?, ?)",
+            [user.id, user.email, user.name, user.createdAt]
+          ),
+          Effect.catchTag("UniqueConstraintError", () =>
+            Effect.fail(new EmailAlreadyInUseError(input.email))
+          )
+        )
+
+        return user
+      })
     )
-
-    return user
-  })
+  }).pipe(Effect.withSpan("createUser"))
 
 /**
  * Update an existing user.
  */
 const updateUser = (id: string, input: UpdateUserInput): Effect.Effect<
   User,
-  UserNotFoundError | ValidationError | DatabaseError | CacheError,
+  UserNotFoundError | EmailAlreadyInUseError | DatabaseError | DecodeError | CacheError | TimeoutError,
   Database | Cache | Logger
 > =>
   Effect.gen(function* () {
@@ -252,45 +850,56 @@ const updateUser = (id: string, input: UpdateUserInput): Effect.Effect<
 
     yield* logger.info("Updating user", { userId: id, fields: Object.keys(input) })
 
-    // Verify user exists
-    const user = yield* findUserById(id)
-
-    // Check email uniqueness if changing email
-    if (input.email && input.email !== user.email) {
-      const existing = yield* findUserByEmail(input.email)
-      if (Option.isSome(existing)) {
-        return yield* Effect.fail(new ValidationError("Email already in use", "email"))
-      }
-    }
-
-    const updated: User = {
-      ...user,
-      email: input.email ?? user.email,
-      name: input.name ?? user.name,
-    }
-
-    yield* db.execute(
-      "UPDATE users SET email = ?, name = ? WHERE id = ?",
-      [updated.email, updated.name, id]
+    const updated = yield* db.transaction(
+      Effect.gen(function* () {
+        // Verify user exists
+        const user = yield* findUserByIdInTransaction(id)
+
+        // Check email uniqueness if changing email
+        if (input.email && input.email !== user.email) {
+          const existing = yield* findUserByEmail(input.email)
+          if (Option.isSome(existing)) {
+            return yield* Effect.fail(new EmailAlreadyInUseError(input.email))
+          }
+        }
+
+        const updated: User = {
+          ...user,
+          email: input.email ?? user.email,
+          name: input.name ?? user.name,
+        }
+
+        yield* pipe(
+          db.execute(
+            "UPDATE users SET email = ?, name = ? WHERE id = ?",
+            [updated.email, updated.name, id]
+          ),
+          Effect.catchTag("UniqueConstraintError", () =>
+            Effect.fail(new EmailAlreadyInUseError(updated.email))
+          )
+        )
+
+        return updated
+      })
     )
 
-    // Invalidate cache
+    // Invalidate cache once the change is committed
     yield* pipe(
       cache.delete(`user:${id}`),
-      Effect.catchTag("CacheError", (error) =>
+      Effect.catchAll((error) =>
         logger.error("Failed to invalidate user cache", error, { userId: id })
       )
     )
 
     return updated
-  })
+  }).pipe(Effect.withSpan("updateUser", { attributes: { "user.id": id } }))
 
 /**
  * Delete a user.
  */
 const deleteUser = (id: string): Effect.Effect<
   void,
-  UserNotFoundError | DatabaseError | CacheError,
+  UserNotFoundError | DatabaseError | DecodeError | CacheError | TimeoutError,
   Database | Cache | Logger
 > =>
   Effect.gen(function* () {
@@ -300,19 +909,27 @@ const deleteUser = (id: string): Effect.Effect<
 
     yield* logger.info("Deleting user", { userId: id })
 
-    // Verify user exists
-    yield* findUserById(id)
-
-    yield* db.execute("DELETE FROM users WHERE id = ?", [id])
+    yield* db.transaction(
+      Effect.gen(function* () {
+        // Verify user exists
+        yield* findUserByIdInTransaction(id)
+
+        // Deleting a row cannot violate a unique constraint
+        yield* pipe(
+          db.execute("DELETE FROM users WHERE id = ?", [id]),
+          Effect.catchTag("UniqueConstraintError", (error) => Effect.die(error))
+        )
+      })
+    )
 
-    // Invalidate cache
+    // Invalidate cache once the delete is committed
     yield* pipe(
       cache.delete(`user:${id}`),
-      Effect.catchTag("CacheError", (error) =>
+      Effect.catchAll((error) =>
         logger.error("Failed to invalidate user cache after delete", error, { userId: id })
       )
     )
-  })
+  }).pipe(Effect.withSpan("deleteUser", { attributes: { "user.id": id } }))
 
 // ============================================================================
 // User Service - Business Logic Layer
@@ -334,8 +951,8 @@ interface UserProfile {
  */
 const getUserProfile = (userId: string): Effect.Effect<
   UserProfile,
-  UserNotFoundError | DatabaseError | CacheError,
-  Database | Cache | Logger
+  UserNotFoundError | DatabaseError | DecodeError | CacheError | TimeoutError,
+  Database | Cache | Logger | SingleFlight
 > =>
   Effect.gen(function* () {
     const user = yield* findUserById(userId)
@@ -348,7 +965,7 @@ const getUserProfile = (userId: string): Effect.Effect<
       accountAge: accountAgeDays,
       isNewUser: accountAgeDays < 30,
     }
-  })
+  }).pipe(Effect.withSpan("getUserProfile", { attributes: { "user.id": userId } }))
 
 /**
  * Email validation as a pure effect.
@@ -368,6 +985,20 @@ const validateName = (name: string): Effect.Effect<string, ValidationError> =>
     ? Effect.succeed(name)
     : Effect.fail(new ValidationError("Name must be at least 2 characters", "name"))
 
+/**
+ * Run every validator and fail with all of their errors at once.
+ *
+ * ADVANTAGE: Accumulating instead of short-circuiting is a mode of
+ * Effect.all, not a rewrite of the validators themselves.
+ */
+const validateAll = (
+  validations: ReadonlyArray<Effect.Effect<unknown, ValidationError>>
+): Effect.Effect<void, ValidationErrors> =>
+  pipe(
+    Effect.all(validations, { mode: "validate", discard: true }),
+    Effect.mapError((results) => new ValidationErrors(Arr.getSomes(results)))
+  )
+
 /**
  * Register a new user with validation.
  * 
@@ -375,37 +1006,75 @@ const validateName = (name: string): Effect.Effect<string, ValidationError> =>
  */
 const registerUser = (input: CreateUserInput): Effect.Effect<
   User,
-  ValidationError | DatabaseError,
+  ValidationErrors | EmailAlreadyInUseError | DatabaseError | DecodeError | TimeoutError,
   Database | Logger
 > =>
   Effect.gen(function* () {
-    // Validate inputs - errors are automatically accumulated in the type
-    yield* validateEmail(input.email)
-    yield* validateName(input.name)
+    // Validate inputs - every invalid field is reported, not just the first
+    yield* validateAll([
+      validateEmail(input.email),
+      validateName(input.name),
+    ])
 
     return yield* createUser(input)
-  })
+  }).pipe(Effect.withSpan("registerUser"))
 
 /**
  * Change user email with verification.
  */
 const changeEmail = (userId: string, newEmail: string): Effect.Effect<
   User,
-  UserNotFoundError | ValidationError | DatabaseError | CacheError,
-  Database | Cache | Logger
+  UserNotFoundError | ValidationError | EmailAlreadyInUseError | DatabaseError | DecodeError | CacheError | TimeoutError,
+  Database | Cache | Logger | SingleFlight
 > =>
   Effect.gen(function* () {
     yield* validateEmail(newEmail)
     return yield* updateUser(userId, { email: newEmail })
-  })
+  }).pipe(Effect.withSpan("changeEmail", { attributes: { "user.id": userId } }))
 
-// ============================================================================
-// HTTP Layer - Type-Safe Error Mapping
+/**
+ * Change a user's display name.
+ */
+const renameUser = (userId: string, newName: string): Effect.Effect<
+  User,
+  UserNotFoundError | ValidationError | DatabaseError | DecodeError | CacheError | TimeoutError,
+  Database | Cache | Logger | SingleFlight
+> =>
+  Effect.gen(function* () {
+    yield* validateName(newName)
+    // Renaming never touches the email, so a conflict is impossible
+    return yield* pipe(
+      updateUser(userId, { name: newName }),
+      Effect.catchTag("EmailAlreadyInUseError", (error) => Effect.die(error))
+    )
+  }).pipe(Effect.withSpan("renameUser", { attributes: { "user.id": userId } }))
+
+/**
+ * Replace every editable field of a user, validating all of them.
+ */
+const replaceUser = (userId: string, input: CreateUserInput): Effect.Effect<
+  User,
+  UserNotFoundError | ValidationErrors | EmailAlreadyInUseError | DatabaseError | DecodeError | CacheError | TimeoutError,
+  Database | Cache | Logger | SingleFlight
+> =>
+  Effect.gen(function* () {
+    yield* validateAll([
+      validateEmail(input.email),
+      validateName(input.name),
+    ])
+
+    return yield* updateUser(userId, input)
+  }).pipe(Effect.withSpan("replaceUser", { attributes: { "user.id": userId } }))
+
+// ============================================================================
+// HTTP Layer - Type-Safe Error Mapping
 // ============================================================================
 
 // Mock HTTP types
 interface HttpRequest {
-  readonly params: Record<string, string>
+  /** A route parameter is undefined when an optional segment is absent */
+  readonly params: Readonly<Record<string, string | undefined>>
+  readonly query: Readonly<Record<string, string | ReadonlyArray<string>>>
   readonly body: unknown
 }
 
@@ -414,6 +1083,16 @@ interface HttpResponse {
   readonly body: unknown
 }
 
+/**
+ * A response whose body is sent while it is being produced. The status goes
+ * out first, so a failure part way through can only cut the body short.
+ */
+interface HttpStreamResponse {
+  readonly status: number
+  readonly contentType: string
+  readonly stream: Stream.Stream<string, UserError>
+}
+
 /**
  * Map domain errors to HTTP responses.
  * 
@@ -425,14 +1104,243 @@ const mapErrorToResponse = (error: UserError): HttpResponse => {
     case "UserNotFoundError":
       return { status: 404, body: { error: "User not found" } }
     case "ValidationError":
-      return { status: 400, body: { error: error.message, field: error.field } }
+      return {
+        status: 400,
+        body: { error: error.message, field: error.field, errors: error.fieldErrors },
+      }
+    case "EmailAlreadyInUseError":
+      return { status: 409, body: { error: "Email already in use", field: "email" } }
+    case "ValidationErrors":
+      return {
+        status: 400,
+        body: {
+          error: "Validation failed",
+          errors: error.errors.flatMap((e) => e.fieldErrors),
+        },
+      }
     case "DatabaseError":
       return { status: 503, body: { error: "Service unavailable" } }
     case "CacheError":
       return { status: 503, body: { error: "Service degraded" } }
+    case "DecodeError":
+      return { status: 500, body: { error: "Internal server error" } }
+    case "TimeoutError":
+      return { status: 504, body: { error: "Operation timed out", operation: error.operation } }
   }
 }
 
+/**
+ * One FieldError per parse issue. Issues with no path are reported
+ * against `root`.
+ */
+const toFieldErrors = (error: ParseResult.ParseError, root: string): ReadonlyArray<FieldError> =>
+  ParseResult.ArrayFormatter.formatErrorSync(error).map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.join(".") : root,
+    message: issue.message,
+  }))
+
+/**
+ * Decode an unknown request body against an input schema.
+ *
+ * ADVANTAGE: `errors: "all"` reports every invalid field at once, and a bad
+ * body becomes a ValidationError in the type instead of a crash further down.
+ */
+const decodeBody = <A, I>(
+  schema: Schema.Schema<A, I>,
+  body: unknown
+): Effect.Effect<A, ValidationError> =>
+  pipe(
+    Schema.decodeUnknown(schema, { errors: "all" })(body),
+    Effect.mapError((error) =>
+      new ValidationError("Invalid request body", undefined, toFieldErrors(error, "body"))
+    )
+  )
+
+/**
+ * Decode path parameters against a schema, like decodeBody.
+ */
+const decodeParams = <A, I>(
+  schema: Schema.Schema<A, I>,
+  params: HttpRequest["params"]
+): Effect.Effect<A, ValidationError> =>
+  pipe(
+    Schema.decodeUnknown(schema, { errors: "all" })(params),
+    Effect.mapError((error) =>
+      new ValidationError("Invalid path parameters", undefined, toFieldErrors(error, "params"))
+    )
+  )
+
+/**
+ * Decode query string parameters against a schema, like decodeBody.
+ */
+const decodeQuery = <A, I>(
+  schema: Schema.Schema<A, I>,
+  query: HttpRequest["query"]
+): Effect.Effect<A, ValidationError> =>
+  pipe(
+    Schema.decodeUnknown(schema, { errors: "all" })(query),
+    Effect.mapError((error) =>
+      new ValidationError("Invalid query parameters", undefined, toFieldErrors(error, "query"))
+    )
+  )
+
+/**
+ * GET /users?cursor=&limit=&q=&createdAfter=&createdBefore=
+ *
+ * `nextCursor` is null on the last page.
+ */
+const listUsersHandler = (req: HttpRequest): Effect.Effect<
+  HttpResponse,
+  never,
+  Database | Logger
+> =>
+  pipe(
+    decodeQuery(ListUsersQuery, req.query),
+    Effect.flatMap((query) =>
+      listUsers({
+        after: query.cursor,
+        limit: query.limit,
+        prefix: query.q,
+        createdAfter: query.createdAfter,
+        createdBefore: query.createdBefore,
+      })
+    ),
+    Effect.map((page) => ({
+      status: 200,
+      body: {
+        users: page.users,
+        nextCursor: pipe(page.nextCursor, Option.map(Schema.encodeSync(UserCursorFromString)), Option.getOrNull),
+      },
+    })),
+    Effect.withSpan("listUsersHandler"),
+    Effect.tapError(countErrorByTag),
+    Effect.catchAll((error) => Effect.succeed(mapErrorToResponse(error)))
+  )
+
+const csvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+/**
+ * Content type, header lines and per-user encoding of each export format.
+ */
+const exportFormats: Record<
+  FileFormat,
+  {
+    readonly contentType: string
+    readonly header: ReadonlyArray<string>
+    readonly encode: (user: User) => string
+  }
+> = {
+  ndjson: {
+    contentType: "application/x-ndjson",
+    header: [],
+    encode: (user) => `${JSON.stringify(user)}\n`,
+  },
+  csv: {
+    contentType: "text/csv; charset=utf-8",
+    header: ["id,email,name,createdAt\r\n"],
+    encode: (user) =>
+      `${[user.id, user.email, user.name, user.createdAt.toISOString()].map(csvField).join(",")}\r\n`,
+  },
+}
+
+/**
+ * GET /users/export?format=ndjson|csv
+ *
+ * ADVANTAGE: Rows are read only as fast as the client accepts them, and the
+ * read connection is closed when the response ends, however it ends.
+ */
+const exportUsersHandler = (req: HttpRequest): Effect.Effect<
+  HttpResponse | HttpStreamResponse,
+  never,
+  Database | Logger
+> =>
+  Effect.gen(function* () {
+    const { format } = yield* decodeQuery(ExportUsersQuery, req.query)
+    const logger = yield* Logger
+    const db = yield* Database
+    const { contentType, header, encode } = exportFormats[format]
+
+    yield* logger.info("Exporting users", { format })
+
+    return {
+      status: 200,
+      contentType,
+      stream: pipe(
+        Stream.fromIterable(header),
+        Stream.concat(Stream.map(streamUsers, encode)),
+        Stream.provideService(Database, db),
+        Stream.tapError((error) =>
+          Effect.zipRight(countErrorByTag(error), logger.error("User export failed", error, { format }))
+        ),
+        Stream.withSpan("exportUsers", { attributes: { "export.format": format } })
+      ),
+    }
+  }).pipe(
+    Effect.withSpan("exportUsersHandler"),
+    Effect.tapError(countErrorByTag),
+    Effect.catchAll((error) => Effect.succeed(mapErrorToResponse(error)))
+  )
+
+/**
+ * Describe why an import record was skipped or failed, for the report.
+ *
+ * ADVANTAGE: The switch is exhaustive over both reason unions, so a new
+ * reason cannot reach clients undescribed.
+ */
+const describeImportReason = (reason: ImportSkipReason | ImportFailureReason) => {
+  switch (reason._tag) {
+    case "DuplicateRowError":
+      return { type: reason._tag, message: `Same email as line ${reason.firstLine}`, email: reason.email }
+    case "EmailAlreadyInUseError":
+      return { type: reason._tag, message: "Email already in use", email: reason.email }
+    case "MalformedRowError":
+      return { type: reason._tag, message: reason.message }
+    case "ValidationError":
+      return { type: reason._tag, message: reason.message, errors: reason.fieldErrors }
+    case "ValidationErrors":
+      return { type: reason._tag, message: "Validation failed", errors: reason.errors.flatMap((e) => e.fieldErrors) }
+    case "DatabaseError":
+      return { type: reason._tag, message: "Service unavailable" }
+    case "TimeoutError":
+      return { type: reason._tag, message: "Operation timed out", operation: reason.operation }
+  }
+}
+
+/**
+ * POST /users/import?format=ndjson|csv
+ *
+ * The body is the file itself. Problems with single records are reported
+ * line by line in a 200 response; only an unreadable file is rejected.
+ */
+const importUsersHandler = (req: HttpRequest): Effect.Effect<
+  HttpResponse,
+  never,
+  Database | Logger | AppConfig
+> =>
+  pipe(
+    decodeQuery(ImportUsersQuery, req.query),
+    Effect.flatMap(({ format }) =>
+      typeof req.body === "string"
+        ? importUsers(format, req.body)
+        : Effect.fail(new ValidationError("Expected the file as the request body", "body"))
+    ),
+    Effect.map(({ rows, summary }) => ({
+      status: 200,
+      body: {
+        summary,
+        rows: rows.map((row) =>
+          row._tag === "Created"
+            ? { line: row.line, status: "created", userId: row.userId }
+            : { line: row.line, status: row._tag === "Skipped" ? "skipped" : "failed", reason: describeImportReason(row.reason) }
+        ),
+      },
+    })),
+    Effect.withSpan("importUsersHandler"),
+    Effect.tapError(countErrorByTag),
+    Effect.catchAll((error) => Effect.succeed(mapErrorToResponse(error)))
+  )
+
 /**
  * GET /users/:id
  * 
@@ -441,11 +1349,14 @@ const mapErrorToResponse = (error: UserError): HttpResponse => {
 const getUserHandler = (req: HttpRequest): Effect.Effect<
   HttpResponse,
   never, // All errors are handled, so this can't fail
-  Database | Cache | Logger
+  Database | Cache | Logger | SingleFlight
 > =>
   pipe(
-    getUserProfile(req.params.id),
+    decodeParams(UserIdParams, req.params),
+    Effect.flatMap(({ id }) => getUserProfile(id)),
     Effect.map((profile) => ({ status: 200, body: profile })),
+    Effect.withSpan("getUserHandler", { attributes: { "user.id": req.params.id } }),
+    Effect.tapError(countErrorByTag),
     Effect.catchAll((error) => Effect.succeed(mapErrorToResponse(error)))
   )
 
@@ -458,8 +1369,11 @@ const createUserHandler = (req: HttpRequest): Effect.Effect<
   Database | Logger
 > =>
   pipe(
-    registerUser(req.body as CreateUserInput),
+    decodeBody(CreateUserInput, req.body),
+    Effect.flatMap(registerUser),
     Effect.map((user) => ({ status: 201, body: user })),
+    Effect.withSpan("createUserHandler"),
+    Effect.tapError(countErrorByTag),
     Effect.catchAll((error) => Effect.succeed(mapErrorToResponse(error)))
   )
 
@@ -469,18 +1383,267 @@ const createUserHandler = (req: HttpRequest): Effect.Effect<
 const updateEmailHandler = (req: HttpRequest): Effect.Effect<
   HttpResponse,
   never,
-  Database | Cache | Logger
+  Database | Cache | Logger | SingleFlight
 > =>
   pipe(
-    changeEmail(req.params.id, (req.body as { email: string }).email),
+    Effect.all([decodeParams(UserIdParams, req.params), decodeBody(ChangeEmailInput, req.body)]),
+    Effect.flatMap(([{ id }, { email }]) => changeEmail(id, email)),
     Effect.map((user) => ({ status: 200, body: user })),
+    Effect.withSpan("updateEmailHandler", { attributes: { "user.id": req.params.id } }),
+    Effect.tapError(countErrorByTag),
     Effect.catchAll((error) => Effect.succeed(mapErrorToResponse(error)))
   )
 
+/**
+ * PATCH /users/:id/name
+ */
+const renameUserHandler = (req: HttpRequest): Effect.Effect<
+  HttpResponse,
+  never,
+  Database | Cache | Logger | SingleFlight
+> =>
+  pipe(
+    Effect.all([decodeParams(UserIdParams, req.params), decodeBody(RenameUserInput, req.body)]),
+    Effect.flatMap(([{ id }, { name }]) => renameUser(id, name)),
+    Effect.map((user) => ({ status: 200, body: user })),
+    Effect.withSpan("renameUserHandler", { attributes: { "user.id": req.params.id } }),
+    Effect.tapError(countErrorByTag),
+    Effect.catchAll((error) => Effect.succeed(mapErrorToResponse(error)))
+  )
+
+/**
+ * PUT /users/:id
+ *
+ * A full update replaces every editable field, so the body has the same
+ * shape as the one used to create the user.
+ */
+const updateUserHandler = (req: HttpRequest): Effect.Effect<
+  HttpResponse,
+  never,
+  Database | Cache | Logger | SingleFlight
+> =>
+  pipe(
+    Effect.all([decodeParams(UserIdParams, req.params), decodeBody(CreateUserInput, req.body)]),
+    Effect.flatMap(([{ id }, input]) => replaceUser(id, input)),
+    Effect.map((user) => ({ status: 200, body: user })),
+    Effect.withSpan("updateUserHandler", { attributes: { "user.id": req.params.id } }),
+    Effect.tapError(countErrorByTag),
+    Effect.catchAll((error) => Effect.succeed(mapErrorToResponse(error)))
+  )
+
+/**
+ * DELETE /users/:id
+ *
+ * 204 on success, 404 when the user does not exist.
+ */
+const deleteUserHandler = (req: HttpRequest): Effect.Effect<
+  HttpResponse,
+  never,
+  Database | Cache | Logger | SingleFlight
+> =>
+  pipe(
+    decodeParams(UserIdParams, req.params),
+    Effect.flatMap(({ id }) => deleteUser(id)),
+    Effect.map(() => ({ status: 204, body: undefined })),
+    Effect.withSpan("deleteUserHandler", { attributes: { "user.id": req.params.id } }),
+    Effect.tapError(countErrorByTag),
+    Effect.catchAll((error) => Effect.succeed(mapErrorToResponse(error)))
+  )
+
+/**
+ * GET /health
+ *
+ * The cache is optional, so an open circuit reports "degraded" rather than
+ * failing the check.
+ */
+const healthHandler = (_req: HttpRequest): Effect.Effect<
+  HttpResponse,
+  never,
+  Cache | CacheCircuitBreaker
+> =>
+  Effect.gen(function* () {
+    const cache = yield* Cache
+    const breaker = yield* CacheCircuitBreaker
+
+    const circuit = yield* breaker.status
+    const stats = yield* cache.stats
+
+    return {
+      status: 200,
+      body: {
+        status: circuit.state === "closed" ? "ok" : "degraded",
+        cache: {
+          circuit: circuit.state,
+          consecutiveFailures: circuit.consecutiveFailures,
+          openedAt: Option.getOrNull(Option.map(circuit.openedAt, (millis) => new Date(millis))),
+          ...stats,
+        },
+      },
+    }
+  }).pipe(Effect.withSpan("healthHandler"))
+
+/**
+ * Outcome of probing one dependency.
+ */
+interface DependencyCheck {
+  readonly status: "up" | "down"
+  readonly latencyMs: number
+  /** The _tag of the error the probe failed with */
+  readonly error?: string
+}
+
+/**
+ * "degraded" means the cache is down but requests can still be served from
+ * the database; "unavailable" means the database is down.
+ */
+type ReadinessStatus = "ok" | "degraded" | "unavailable"
+
+interface HealthReport {
+  readonly status: ReadinessStatus
+  readonly checks: {
+    readonly database: DependencyCheck
+    readonly cache: DependencyCheck & { readonly circuit: CircuitState }
+  }
+}
+
+/**
+ * Probes get less time than real work, so a hung dependency is reported
+ * quickly.
+ */
+const probeTimeout = Duration.seconds(1)
+
+/**
+ * Run a probe, timing it and turning any failure into a "down" result.
+ */
+const probe = <A, E extends { readonly _tag: string }, R>(
+  operation: string,
+  effect: Effect.Effect<A, E, R>
+): Effect.Effect<DependencyCheck, never, R> =>
+  pipe(
+    effect,
+    Effect.timeoutFail({
+      duration: probeTimeout,
+      onTimeout: () => new TimeoutError(operation, Duration.toMillis(probeTimeout)),
+    }),
+    Effect.either,
+    Effect.timed,
+    Effect.map(([duration, result]): DependencyCheck => {
+      const latencyMs = Duration.toMillis(duration)
+      return Either.isRight(result)
+        ? { status: "up", latencyMs }
+        : { status: "down", latencyMs, error: result.left._tag }
+    })
+  )
+
+/**
+ * Probe the Database and Cache concurrently.
+ *
+ * ADVANTAGE: The probes' requirements show exactly which services are
+ * checked, and the never error type guarantees a failing dependency is
+ * reported instead of failing the check itself.
+ */
+const checkDependencies: Effect.Effect<HealthReport, never, Database | Cache | CacheCircuitBreaker> =
+  Effect.gen(function* () {
+    const db = yield* Database
+    const cache = yield* Cache
+    const breaker = yield* CacheCircuitBreaker
+
+    const { database, cacheCheck } = yield* Effect.all(
+      {
+        database: probe("health.database", db.query("SELECT 1", [])),
+        cacheCheck: probe("health.cache", cache.get("health:probe")),
+      },
+      { concurrency: "unbounded" }
+    )
+
+    // An open circuit answers every read with a miss, so the probe alone
+    // would report a broken cache as up
+    const { state: circuit } = yield* breaker.status
+    const cacheResult = circuit === "closed"
+      ? { ...cacheCheck, circuit }
+      : { ...cacheCheck, status: "down" as const, circuit }
+
+    const status: ReadinessStatus = database.status === "down"
+      ? "unavailable"
+      : cacheResult.status === "down" ? "degraded" : "ok"
+
+    return { status, checks: { database, cache: cacheResult } }
+  }).pipe(Effect.withSpan("checkDependencies"))
+
+/**
+ * GET /healthz
+ *
+ * Always 200 while the process can answer; the body reports each
+ * dependency, so a database outage does not get the process restarted.
+ */
+const healthzHandler = (_req: HttpRequest): Effect.Effect<
+  HttpResponse,
+  never,
+  Database | Cache | CacheCircuitBreaker
+> =>
+  Effect.map(checkDependencies, (report) => ({ status: 200, body: report }))
+
+/**
+ * GET /readyz
+ *
+ * 503 when the database is down, so no traffic is routed here. A cache
+ * outage only degrades the service, so it stays ready.
+ */
+const readyzHandler = (_req: HttpRequest): Effect.Effect<
+  HttpResponse,
+  never,
+  Database | Cache | CacheCircuitBreaker
+> =>
+  Effect.map(checkDependencies, (report) => ({
+    status: report.status === "unavailable" ? 503 : 200,
+    body: report,
+  }))
+
 // ============================================================================
 // Batch Processing - Elegant Concurrency
 // ============================================================================
 
+/**
+ * Errors a single item of a user batch can fail with.
+ */
+type BatchItemError = UserNotFoundError | DatabaseError | DecodeError | CacheError | TimeoutError
+
+interface BatchItemSuccess {
+  readonly _tag: "Success"
+  readonly userId: string
+  readonly profile: UserProfile
+  readonly durationMs: number
+}
+
+interface BatchItemFailure {
+  readonly _tag: "Failure"
+  readonly userId: string
+  readonly error: BatchItemError
+  readonly durationMs: number
+}
+
+type BatchItemResult = BatchItemSuccess | BatchItemFailure
+
+interface BatchSummary {
+  readonly total: number
+  readonly succeeded: number
+  readonly failed: number
+  readonly durationMs: number
+}
+
+interface BatchResult {
+  /** One result per input id, in input order */
+  readonly results: readonly BatchItemResult[]
+  readonly successful: readonly BatchItemSuccess[]
+  readonly failed: readonly BatchItemFailure[]
+  readonly summary: BatchSummary
+}
+
+interface BatchOptions {
+  /** Maximum number of users processed at once (default: AppConfig) */
+  readonly concurrency?: number | "unbounded"
+}
+
 /**
  * Process multiple users concurrently.
  * 
@@ -489,31 +1652,47 @@ const updateEmailHandler = (req: HttpRequest): Effect.Effect<
  * 2. Structured error handling
  * 3. Automatic resource management
  * 4. Cancellation support
+ *
+ * Each item keeps its user id and its typed error - Effect.either turns a
+ * failure into a value without losing which input it came from.
  */
-const processUserBatch = (userIds: readonly string[]): Effect.Effect<
-  {
-    readonly successful: readonly { userId: string; profile: UserProfile }[]
-    readonly failed: readonly { userId: string; error: string }[]
-  },
-  never,
-  Database | Cache | Logger
-> =>
-  pipe(
-    Effect.partition(
+const processUserBatch = (
+  userIds: readonly string[],
+  options: BatchOptions = {}
+): Effect.Effect<BatchResult, never, Database | Cache | Logger | SingleFlight | AppConfig> =>
+  Effect.flatMap(AppConfig, (config) => pipe(
+    Effect.forEach(
       userIds,
       (userId) => pipe(
         getUserProfile(userId),
-        Effect.map((profile) => ({ userId, profile }))
-      )
+        Effect.either,
+        Effect.timed,
+        Effect.map(([duration, result]): BatchItemResult =>
+          Either.isRight(result)
+            ? { _tag: "Success", userId, profile: result.right, durationMs: Duration.toMillis(duration) }
+            : { _tag: "Failure", userId, error: result.left, durationMs: Duration.toMillis(duration) }
+        )
+      ),
+      // Lookups that miss the cache are resolved by one batched query
+      { concurrency: options.concurrency ?? config.batchConcurrency, batching: true }
     ),
-    Effect.map(([failures, successes]) => ({
-      successful: successes,
-      failed: failures.map((error) => ({
-        userId: "unknown",
-        error: error._tag
-      }))
-    }))
-  )
+    Effect.timed,
+    Effect.map(([duration, results]) => {
+      const successful = results.filter((result) => result._tag === "Success")
+      const failed = results.filter((result) => result._tag === "Failure")
+      return {
+        results,
+        successful,
+        failed,
+        summary: {
+          total: results.length,
+          succeeded: successful.length,
+          failed: failed.length,
+          durationMs: Duration.toMillis(duration),
+        },
+      }
+    })
+  ))
 
 /**
  * Process with concurrency limit.
@@ -527,81 +1706,1271 @@ const processWithConcurrencyLimit = <T, R, E, A>(
 ): Effect.Effect<readonly A[], E, R> =>
   Effect.forEach(items, processor, { concurrency: concurrencyLimit })
 
+/**
+ * How persistently to retry transient failures.
+ */
+interface RetryPolicy {
+  /** Retries after the first attempt */
+  readonly maxRetries: number
+  /** Delay before the first retry, doubled (with jitter) for each one after */
+  readonly baseDelay: Duration.DurationInput
+  /** No retry is started once this much time has passed */
+  readonly budget: Duration.DurationInput
+}
+
+const defaultRetryPolicy: RetryPolicy = {
+  maxRetries: 3,
+  baseDelay: Duration.millis(100),
+  budget: Duration.seconds(2),
+}
+
+/**
+ * SQLite result codes for conditions that may clear up on their own
+ * (extended codes such as SQLITE_BUSY_TIMEOUT share these prefixes).
+ */
+const transientSqliteCodes = ["SQLITE_BUSY", "SQLITE_LOCKED", "SQLITE_IOERR", "SQLITE_CANTOPEN"]
+
+/**
+ * Whether retrying could possibly change the outcome.
+ *
+ * ADVANTAGE: The switch is exhaustive over the tagged union, so a new error
+ * type cannot be added without deciding whether it is retryable.
+ */
+const isTransientError = (error: UserError): boolean => {
+  switch (error._tag) {
+    case "DatabaseError": {
+      const cause = error.cause
+      return cause instanceof Sqlite.SqliteError &&
+        transientSqliteCodes.some((code) => cause.code.startsWith(code))
+    }
+    case "CacheError":
+    case "TimeoutError":
+      return true
+    case "UserNotFoundError":
+    case "ValidationError":
+    case "ValidationErrors":
+    case "EmailAlreadyInUseError":
+    case "DecodeError":
+      return false
+  }
+}
+
+/**
+ * Retry an effect on transient failures only, logging every failed attempt.
+ *
+ * ADVANTAGE: Backoff, jitter, the attempt limit, the time budget and the
+ * error filter are separate schedule combinators rather than one hand-rolled
+ * loop.
+ */
+const retryTransient = <A, E extends UserError, R>(
+  effect: Effect.Effect<A, E, R>,
+  meta: Record<string, unknown>,
+  policy: RetryPolicy = defaultRetryPolicy
+): Effect.Effect<A, E, R | Logger> =>
+  Effect.gen(function* () {
+    const logger = yield* Logger
+    let attempt = 0
+
+    return yield* pipe(
+      Effect.suspend(() => {
+        attempt++
+        return effect
+      }),
+      Effect.tapError((error) =>
+        logger.error("Attempt failed", error, { ...meta, attempt, retryable: isTransientError(error) })
+      ),
+      Effect.retry(
+        pipe(
+          Schedule.exponential(policy.baseDelay),
+          Schedule.jittered,
+          Schedule.intersect(Schedule.recurs(policy.maxRetries)),
+          Schedule.upTo(policy.budget),
+          Schedule.whileInput(isTransientError)
+        )
+      )
+    )
+  })
+
 /**
  * Process with retry logic.
  * 
  * ADVANTAGE: Retry policies are declarative and composable.
  */
-const processWithRetry = (userId: string): Effect.Effect<
+const processWithRetry = (userId: string, policy?: RetryPolicy): Effect.Effect<
   UserProfile,
-  UserNotFoundError | DatabaseError | CacheError,
-  Database | Cache | Logger
+  UserNotFoundError | DatabaseError | DecodeError | CacheError | TimeoutError,
+  Database | Cache | Logger | SingleFlight | AppConfig
 > =>
+  Effect.flatMap(AppConfig, (config) =>
+    retryTransient(getUserProfile(userId), { userId }, policy ?? config.retry)
+  )
+
+// ============================================================================
+// Bulk Import - Validated, Deduplicated, Batched
+// ============================================================================
+
+/**
+ * Why an import record was left out, although nothing was wrong with it.
+ */
+type ImportSkipReason = DuplicateRowError | EmailAlreadyInUseError
+
+/**
+ * Why an import record could not be imported.
+ */
+type ImportFailureReason = MalformedRowError | ValidationError | ValidationErrors | DatabaseError | TimeoutError
+
+interface ImportRowCreated {
+  readonly _tag: "Created"
+  readonly line: number
+  readonly userId: string
+}
+
+interface ImportRowSkipped {
+  readonly _tag: "Skipped"
+  readonly line: number
+  readonly reason: ImportSkipReason
+}
+
+interface ImportRowFailed {
+  readonly _tag: "Failed"
+  readonly line: number
+  readonly reason: ImportFailureReason
+}
+
+type ImportRowResult = ImportRowCreated | ImportRowSkipped | ImportRowFailed
+
+interface ImportSummary {
+  readonly total: number
+  readonly created: number
+  readonly skipped: number
+  readonly failed: number
+  readonly durationMs: number
+}
+
+interface ImportReport {
+  /** One result per record, in file order */
+  readonly rows: ReadonlyArray<ImportRowResult>
+  readonly summary: ImportSummary
+}
+
+interface ImportOptions {
+  /** Records inserted per transaction (default: 100) */
+  readonly batchSize?: number
+  /** Maximum number of batches in flight (default: AppConfig) */
+  readonly concurrency?: number
+}
+
+/**
+ * One record of an import file, and the line it starts on.
+ */
+interface ImportRecord {
+  readonly line: number
+  readonly fields: Either.Either<unknown, MalformedRowError>
+}
+
+const defaultImportBatchSize = 100
+
+/**
+ * Split CSV text into records (RFC 4180). Quoted fields may contain commas,
+ * doubled quotes and line breaks, so a record may span several lines.
+ */
+const parseCsvRecords = (
+  text: string
+): Array<{ readonly line: number; readonly fields: Either.Either<string[], MalformedRowError> }> => {
+  const records: Array<{ line: number; fields: Either.Either<string[], MalformedRowError> }> = []
+  let fields: string[] = []
+  let field = ""
+  let quoted = false
+  let line = 1
+  let start = 1
+
+  const endRecord = () => {
+    fields.push(field)
+    // Blank lines carry no record
+    if (fields.length > 1 || fields[0] !== "") {
+      records.push({ line: start, fields: Either.right(fields) })
+    }
+    fields = []
+    field = ""
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === "\n") line++
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      fields.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      endRecord()
+      line++
+      start = line
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    records.push({ line: start, fields: Either.left(new MalformedRowError("Unterminated quoted field")) })
+  } else if (field !== "" || fields.length > 0) {
+    endRecord()
+  }
+  return records
+}
+
+/**
+ * Read the records of an import file. A CSV file must start with a header
+ * naming at least the email and name columns; other columns are ignored.
+ */
+const parseImportFile = (
+  format: FileFormat,
+  text: string
+): Effect.Effect<ReadonlyArray<ImportRecord>, ValidationError> => {
+  if (format === "ndjson") {
+    return Effect.succeed(
+      text.split(/\r?\n/).flatMap((content, index): ImportRecord[] =>
+        content.trim() === ""
+          ? []
+          : [{
+              line: index + 1,
+              fields: Either.try({
+                try: (): unknown => JSON.parse(content),
+                catch: () => new MalformedRowError("Line is not valid JSON"),
+              }),
+            }]
+      )
+    )
+  }
+
+  const [header, ...rows] = parseCsvRecords(text)
+  const columns = header === undefined ? [] : Either.getOrElse(header.fields, () => [])
+  const emailColumn = columns.indexOf("email")
+  const nameColumn = columns.indexOf("name")
+  if (emailColumn === -1 || nameColumn === -1) {
+    return Effect.fail(new ValidationError("CSV header must name the email and name columns", "body"))
+  }
+
+  return Effect.succeed(
+    rows.map(({ line, fields }) => ({
+      line,
+      fields: Either.flatMap(fields, (values) =>
+        values.length === columns.length
+          ? Either.right({ email: values[emailColumn], name: values[nameColumn] })
+          : Either.left(new MalformedRowError(`Expected ${columns.length} fields, found ${values.length}`))
+      ),
+    }))
+  )
+}
+
+/**
+ * Decode and validate one record, reporting every invalid field at once.
+ */
+const validateImportRecord = (
+  fields: Either.Either<unknown, MalformedRowError>
+): Effect.Effect<CreateUserInput, MalformedRowError | ValidationError | ValidationErrors> =>
   pipe(
-    getUserProfile(userId),
-    Effect.retry(
-      Schedule.exponential(Duration.millis(100)).pipe(
-        Schedule.compose(Schedule.recurs(3))
+    fields,
+    Effect.flatMap((record) =>
+      pipe(
+        Schema.decodeUnknown(CreateUserInput, { errors: "all" })(record),
+        Effect.mapError((error) => new ValidationError("Invalid record", undefined, toFieldErrors(error, "record")))
       )
+    ),
+    Effect.tap((input) => validateAll([validateEmail(input.email), validateName(input.name)]))
+  )
+
+/**
+ * Insert one batch of records in a single transaction, skipping emails
+ * that are already registered.
+ */
+const insertImportBatch = (
+  batch: ReadonlyArray<{ readonly line: number; readonly input: CreateUserInput }>
+): Effect.Effect<ReadonlyArray<ImportRowResult>, never, Database> =>
+  Effect.gen(function* () {
+    const db = yield* Database
+    const alreadyInUse = (line: number, email: string): ImportRowResult =>
+      ({ _tag: "Skipped", line, reason: new EmailAlreadyInUseError(email) })
+
+    return yield* db.transaction(
+      Effect.gen(function* () {
+        const emails = batch.map(({ input }) => input.email)
+        const existing = yield* db.query<{ readonly email: string }>(
+          `SELECT email FROM users WHERE email IN (${emails.map(() => "?").join(", ")})`,
+          emails
+        )
+        const taken = new Set(existing.map((row) => row.email))
+
+        return yield* Effect.forEach(batch, ({ line, input }) => {
+          if (taken.has(input.email)) {
+            return Effect.succeed(alreadyInUse(line, input.email))
+          }
+
+          const id = crypto.randomUUID()
+          return pipe(
+            db.execute(
+              "INSERT INTO users (id, email, name, created_at) VALUES (?, ?, ?, ?)",
+              [id, input.email, input.name, new Date()]
+            ),
+            Effect.as<ImportRowResult>({ _tag: "Created", line, userId: id }),
+            // The unique index still guards writers that bypass the check
+            Effect.catchTag("UniqueConstraintError", () => Effect.succeed(alreadyInUse(line, input.email)))
+          )
+        })
+      })
+    )
+  }).pipe(
+    // The transaction was rolled back, so none of the batch was imported
+    Effect.catchAll((error) =>
+      Effect.succeed(batch.map(({ line }): ImportRowResult => ({ _tag: "Failed", line, reason: error })))
+    ),
+    Effect.withSpan("insertImportBatch", { attributes: { "batch.size": batch.length } })
+  )
+
+/**
+ * Import users from an NDJSON or CSV file.
+ *
+ * Every record is validated first. Records repeating an email from earlier
+ * in the file are skipped. The rest are inserted in batched transactions,
+ * up to `concurrency` batches at a time. On SQLite the transactions still
+ * take turns on the one connection.
+ *
+ * ADVANTAGE: Each record's outcome keeps its typed reason - Effect.either
+ * turns a failure into a value without losing which line it came from. Only
+ * an unreadable file fails the import as a whole.
+ */
+const importUsers = (
+  format: FileFormat,
+  text: string,
+  options: ImportOptions = {}
+): Effect.Effect<ImportReport, ValidationError, Database | Logger | AppConfig> =>
+  Effect.gen(function* () {
+    const logger = yield* Logger
+    const config = yield* AppConfig
+
+    const records = yield* parseImportFile(format, text)
+    yield* logger.info("Importing users", { format, records: records.length })
+
+    const rejected: ImportRowResult[] = []
+    const accepted: Array<{ readonly line: number; readonly input: CreateUserInput }> = []
+    const firstLineByEmail = new Map<string, number>()
+
+    for (const { line, fields } of records) {
+      const validated = yield* Effect.either(validateImportRecord(fields))
+      if (Either.isLeft(validated)) {
+        rejected.push({ _tag: "Failed", line, reason: validated.left })
+        continue
+      }
+
+      const input = validated.right
+      const firstLine = firstLineByEmail.get(input.email)
+      if (firstLine !== undefined) {
+        rejected.push({ _tag: "Skipped", line, reason: new DuplicateRowError(input.email, firstLine) })
+        continue
+      }
+      firstLineByEmail.set(input.email, line)
+      accepted.push({ line, input })
+    }
+
+    const inserted = yield* Effect.forEach(
+      Arr.chunksOf(accepted, options.batchSize ?? defaultImportBatchSize),
+      insertImportBatch,
+      { concurrency: options.concurrency ?? config.batchConcurrency }
     )
+
+    return [...rejected, ...inserted.flat()].sort((a, b) => a.line - b.line)
+  }).pipe(
+    Effect.timed,
+    Effect.map(([duration, rows]) => ({
+      rows,
+      summary: {
+        total: rows.length,
+        created: rows.filter((row) => row._tag === "Created").length,
+        skipped: rows.filter((row) => row._tag === "Skipped").length,
+        failed: rows.filter((row) => row._tag === "Failed").length,
+        durationMs: Duration.toMillis(duration),
+      },
+    })),
+    Effect.tap(({ summary }) => Effect.flatMap(Logger, (logger) => logger.info("Imported users", { ...summary }))),
+    Effect.withSpan("importUsers", { attributes: { "import.format": format } })
   )
 
 // ============================================================================
-// Layer Definitions - Composable Dependency Injection
+// Configuration - Typed and Validated at Startup
 // ============================================================================
 
 /**
- * Mock Database implementation for testing/example.
+ * Per-operation timeouts for the Database service.
  */
-const DatabaseLive = Layer.succeed(Database, {
-  query: <T>(_sql: string, _params: unknown[]) =>
-    Effect.succeed([] as T[]),
-  execute: (_sql: string, _params: unknown[]) =>
-    Effect.succeed(undefined),
-})
+interface DatabaseTimeouts {
+  readonly query: Duration.DurationInput
+  readonly execute: Duration.DurationInput
+}
 
 /**
- * Mock Cache implementation.
+ * Per-operation timeouts for the Cache service.
  */
-const CacheLive = Layer.succeed(Cache, {
-  get: <T>(_key: string) =>
-    Effect.succeed(Option.none<T>()),
-  set: <T>(_key: string, _value: T, _ttlSeconds?: number) =>
-    Effect.succeed(undefined),
-  delete: (_key: string) =>
-    Effect.succeed(undefined),
+interface CacheTimeouts {
+  readonly get: Duration.DurationInput
+  readonly set: Duration.DurationInput
+  readonly delete: Duration.DurationInput
+}
+
+const defaultDatabaseTimeouts: DatabaseTimeouts = {
+  query: Duration.seconds(5),
+  execute: Duration.seconds(5),
+}
+
+// The cache is an optimisation, so it gets far less time than the database
+const defaultCacheTimeouts: CacheTimeouts = {
+  get: Duration.millis(100),
+  set: Duration.millis(100),
+  delete: Duration.millis(100),
+}
+
+const positiveInteger = (name: string) =>
+  Config.integer(name).pipe(
+    Config.validate({ message: "Expected a positive integer", validation: (n) => n > 0 })
+  )
+
+const positiveDuration = (name: string, fallback: Duration.DurationInput) =>
+  Config.duration(name).pipe(
+    Config.validate({
+      message: "Expected a positive duration",
+      validation: (duration) => Duration.greaterThan(duration, Duration.zero),
+    }),
+    Config.withDefault(Duration.decode(fallback))
+  )
+
+/**
+ * Every setting with its default.
+ *
+ * ADVANTAGE: The description is separate from where values come from - the
+ * same Config reads environment variables, a JSON file or a test map, and
+ * reports every invalid value at once.
+ *
+ * Keys are nested camelCase paths (e.g. `cache.ttl`). The environment spells
+ * them in CONSTANT_CASE (e.g. `CACHE_TTL`). Durations accept strings such as
+ * "5 minutes".
+ */
+const appConfig: Config.Config<Context.Tag.Service<AppConfig>> = Config.all({
+  databasePath: pipe(
+    Config.string("path"),
+    Config.nested("database"),
+    Config.withDefault("users.db")
+  ),
+  databaseTimeouts: pipe(
+    Config.all({
+      query: positiveDuration("queryTimeout", defaultDatabaseTimeouts.query),
+      execute: positiveDuration("executeTimeout", defaultDatabaseTimeouts.execute),
+    }),
+    Config.nested("database")
+  ),
+  cache: pipe(
+    Config.all({
+      capacity: pipe(positiveInteger("capacity"), Config.withDefault(10_000)),
+      ttl: pipe(Config.duration("ttl"), Config.withDefault(Duration.minutes(5))),
+      timeouts: Config.all({
+        get: positiveDuration("getTimeout", defaultCacheTimeouts.get),
+        set: positiveDuration("setTimeout", defaultCacheTimeouts.set),
+        delete: positiveDuration("deleteTimeout", defaultCacheTimeouts.delete),
+      }),
+    }),
+    Config.nested("cache")
+  ),
+  logLevel: pipe(
+    Config.literal("debug", "info", "error")("logLevel"),
+    Config.withDefault<LogLevel>("info")
+  ),
+  retry: pipe(
+    Config.all({
+      maxRetries: pipe(
+        Config.integer("maxRetries"),
+        Config.validate({ message: "Expected a non-negative integer", validation: (n) => n >= 0 }),
+        Config.withDefault(defaultRetryPolicy.maxRetries)
+      ),
+      baseDelay: pipe(Config.duration("baseDelay"), Config.withDefault(Duration.decode(defaultRetryPolicy.baseDelay))),
+      budget: pipe(Config.duration("budget"), Config.withDefault(Duration.decode(defaultRetryPolicy.budget))),
+    }),
+    Config.nested("retry")
+  ),
+  batchConcurrency: pipe(
+    positiveInteger("concurrency"),
+    Config.nested("batch"),
+    Config.withDefault(16)
+  ),
+  traceFile: Config.option(Config.string("traceFile")),
+  shutdownTimeout: pipe(Config.duration("shutdownTimeout"), Config.withDefault(Duration.seconds(10))),
 })
 
 /**
- * Console-based Logger implementation.
+ * Environment variables, falling back to the JSON file named by CONFIG_FILE
+ * (if set) for anything the environment leaves out.
+ */
+const configProvider: Effect.Effect<ConfigProvider.ConfigProvider, ConfigError.ConfigError | ConfigFileError> =
+  Effect.gen(function* () {
+    const env = pipe(ConfigProvider.fromEnv(), ConfigProvider.constantCase)
+    const configFile = yield* Config.option(Config.string("CONFIG_FILE"))
+
+    if (Option.isNone(configFile)) {
+      return env
+    }
+
+    const path = configFile.value
+    const json = yield* Effect.try({
+      try: (): unknown => JSON.parse(readFileSync(path, "utf8")),
+      catch: (cause) => new ConfigFileError(path, cause),
+    })
+    if (typeof json !== "object" || json === null || Array.isArray(json)) {
+      return yield* Effect.fail(new ConfigFileError(path, "Expected a JSON object"))
+    }
+
+    return ConfigProvider.orElse(env, () => ConfigProvider.fromJson(json))
+  })
+
+/**
+ * Loads AppConfig from the environment and optional config file.
+ *
+ * ADVANTAGE: A missing file or invalid value fails the layer with a typed
+ * error, so the application never starts half-configured.
+ */
+const AppConfigLive: Layer.Layer<AppConfig, ConfigError.ConfigError | ConfigFileError> = Layer.effect(
+  AppConfig,
+  Effect.flatMap(configProvider, (provider) => Effect.withConfigProvider(appConfig, provider))
+)
+
+/**
+ * AppConfig with every setting at its default.
+ */
+const AppConfigTest = Layer.effect(
+  AppConfig,
+  Effect.withConfigProvider(appConfig, ConfigProvider.fromMap(new Map()))
+)
+
+// ============================================================================
+// Tracing - OpenTelemetry-Compatible Spans
+// ============================================================================
+
+const otlpSpanKind: Record<Tracer.SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+}
+
+/**
+ * A span that records its attributes and events and hands itself to
+ * `onEnd` once finished.
+ */
+const makeRecordingSpan = (
+  name: string,
+  parent: Option.Option<Tracer.AnySpan>,
+  context: Context.Context<never>,
+  initialLinks: ReadonlyArray<Tracer.SpanLink>,
+  startTime: bigint,
+  kind: Tracer.SpanKind,
+  onEnd: (span: ExportedSpan) => void
+): Tracer.Span => {
+  const attributes = new Map<string, unknown>()
+  const events: Array<ExportedSpan["events"][number]> = []
+  const links = [...initialLinks]
+  let status: Tracer.SpanStatus = { _tag: "Started", startTime }
+
+  const spanId = randomBytes(8).toString("hex")
+  const traceId = Option.match(parent, {
+    onNone: () => randomBytes(16).toString("hex"),
+    onSome: (parent) => parent.traceId,
+  })
+
+  return {
+    _tag: "Span",
+    name,
+    spanId,
+    traceId,
+    parent,
+    context,
+    get status() {
+      return status
+    },
+    attributes,
+    links,
+    sampled: true,
+    kind,
+    end: (endTime, exit) => {
+      status = { _tag: "Ended", startTime, endTime, exit }
+      onEnd({
+        traceId,
+        spanId,
+        parentSpanId: Option.getOrUndefined(Option.map(parent, (parent) => parent.spanId)),
+        name,
+        kind: otlpSpanKind[kind],
+        startTimeUnixNano: startTime.toString(),
+        endTimeUnixNano: endTime.toString(),
+        attributes: Object.fromEntries(attributes),
+        events,
+        status: Exit.isSuccess(exit)
+          ? { code: 1 }
+          : { code: 2, message: Cause.pretty(exit.cause) },
+      })
+    },
+    attribute: (key, value) => {
+      attributes.set(key, value)
+    },
+    event: (name, startTime, eventAttributes) => {
+      events.push({ name, timeUnixNano: startTime.toString(), attributes: { ...eventAttributes } })
+    },
+    addLinks: (newLinks) => {
+      links.push(...newLinks)
+    },
+  }
+}
+
+/**
+ * Installs a Tracer that sends every finished span to the SpanExporter.
+ *
+ * ADVANTAGE: Spans are opened with Effect.withSpan and nest through the
+ * fiber, so no function passes a span or parent id along. Attributes added
+ * with Effect.annotateCurrentSpan land on whichever span is current.
+ */
+const SpanTracer: Layer.Layer<never, never, SpanExporter> = Layer.unwrapEffect(
+  Effect.map(SpanExporter, (exporter) =>
+    Layer.setTracer(
+      Tracer.make({
+        span: (name, parent, context, links, startTime, kind) =>
+          makeRecordingSpan(name, parent, context, links, startTime, kind, (span) =>
+            Effect.runSync(exporter.export(span))
+          ),
+        context: (f) => f(),
+      })
+    )
+  )
+)
+
+/**
+ * Keeps finished spans in memory, so tests can inspect them offline.
+ */
+const SpanExporterMemory: Layer.Layer<SpanExporter | RecordedSpans> = Layer.effectContext(
+  Effect.map(Ref.make<ReadonlyArray<ExportedSpan>>([]), (spans) =>
+    pipe(
+      Context.make(SpanExporter, {
+        export: (span) => Ref.update(spans, Arr.append(span)),
+      }),
+      Context.add(RecordedSpans, {
+        spans: Ref.get(spans),
+        clear: Ref.set(spans, []),
+      })
+    )
+  )
+)
+
+/**
+ * Appends each finished span to a file as one JSON line.
+ */
+const SpanExporterFile = (path: string): Layer.Layer<SpanExporter> =>
+  Layer.succeed(SpanExporter, {
+    export: (span) =>
+      pipe(
+        Effect.try(() => appendFileSync(path, `${JSON.stringify(span)}\n`)),
+        // A lost span must never fail the traced operation
+        Effect.catchAll((error) => Console.error(`Failed to export span to ${path}`, error))
+      ),
+  })
+
+// ============================================================================
+// Layer Definitions - Composable Dependency Injection
+// ============================================================================
+
+/**
+ * Schema for the users table assumed by the repository queries.
+ */
+const UsersTableSchema = `
+  CREATE TABLE IF NOT EXISTS users (
+    id         TEXT PRIMARY KEY,
+    email      TEXT NOT NULL,
+    name       TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS users_email_unique ON users (email);
+  CREATE INDEX IF NOT EXISTS users_created_at ON users (created_at, id);
+`
+
+/**
+ * SQLite cannot bind Date values, so they are stored as ISO-8601 text.
+ */
+const toSqlParam = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : value
+
+/**
+ * SQLite-backed Database implementation.
+ *
+ * ADVANTAGE: The connection is a scoped resource - it is opened when the
+ * layer is built and closed automatically when the scope is released,
+ * even if the program fails or is interrupted.
+ *
+ * All fibers share one connection, so a transaction holds a single-permit
+ * semaphore that every other statement waits for. Fibers already inside the
+ * transaction are marked by a FiberRef and skip the wait.
+ */
+const DatabaseSqlite = (filename: string): Layer.Layer<Database, DatabaseError> =>
+  Layer.scoped(
+    Database,
+    Effect.gen(function* () {
+      const connection = yield* Effect.acquireRelease(
+        Effect.try({
+          try: () => new Sqlite(filename),
+          catch: (cause) => new DatabaseError(`Failed to open database: ${filename}`, cause),
+        }),
+        (connection) => Effect.sync(() => connection.close())
+      )
+
+      // Write-ahead logging lets streams read on their own connections
+      // while this one writes
+      yield* Effect.try({
+        try: () => {
+          connection.pragma("journal_mode = WAL")
+          connection.exec(UsersTableSchema)
+        },
+        catch: (cause) => new DatabaseError("Failed to apply database schema", cause),
+      })
+
+      const lock = yield* Effect.makeSemaphore(1)
+      const inTransaction = yield* FiberRef.make(false)
+
+      // Wait for any open transaction unless this fiber is part of it
+      const exclusive = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+        Effect.flatMap(FiberRef.get(inTransaction), (joined) =>
+          joined ? effect : lock.withPermits(1)(effect)
+        )
+
+      const run = (sql: string) =>
+        Effect.try({
+          try: () => connection.exec(sql),
+          catch: (cause) => new DatabaseError(`${sql} failed`, cause),
+        })
+
+      // One client span and one duration sample per statement, including
+      // any wait for the lock
+      const instrumented = (operation: "query" | "execute", sql: string) =>
+        <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+          pipe(
+            effect,
+            Metric.trackDurationWith(
+              Metric.tagged(dbQueryDurationSeconds, "operation", operation),
+              Duration.toSeconds
+            ),
+            Effect.withSpan(`db.${operation}`, {
+              kind: "client",
+              attributes: { "db.system": "sqlite", "db.statement": sql },
+            })
+          )
+
+      // Rows read per pull, so a slow consumer holds back the reads
+      const streamChunkSize = 256
+
+      return {
+        query: <T>(sql: string, params: unknown[]) =>
+          exclusive(
+            Effect.try({
+              try: () => connection.prepare(sql).all(...params.map(toSqlParam)) as T[],
+              catch: (cause) => new DatabaseError("Query failed", cause),
+            })
+          ).pipe(instrumented("query", sql)),
+        execute: (sql: string, params: unknown[]) =>
+          exclusive(
+            Effect.try({
+              try: () => {
+                connection.prepare(sql).run(...params.map(toSqlParam))
+              },
+              catch: (cause) =>
+                cause instanceof Sqlite.SqliteError && cause.code === "SQLITE_CONSTRAINT_UNIQUE"
+                  ? new UniqueConstraintError(cause.message, cause)
+                  : new DatabaseError("Statement failed", cause),
+            })
+          ).pipe(instrumented("execute", sql)),
+        transaction: <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+          Effect.flatMap(FiberRef.get(inTransaction), (joined) =>
+            // A nested transaction simply joins the outer one
+            joined
+              ? effect
+              : lock.withPermits(1)(
+                  Effect.uninterruptibleMask((restore) =>
+                    Effect.gen(function* () {
+                      yield* run("BEGIN IMMEDIATE")
+                      const exit = yield* Effect.exit(
+                        restore(Effect.locally(effect, inTransaction, true))
+                      )
+
+                      if (Exit.isSuccess(exit)) {
+                        yield* pipe(
+                          run("COMMIT"),
+                          Effect.tapError(() => Effect.ignore(run("ROLLBACK")))
+                        )
+                        return exit.value
+                      }
+
+                      yield* Effect.ignore(run("ROLLBACK"))
+                      return yield* exit
+                    })
+                  )
+                )
+          ),
+        inTransaction: FiberRef.get(inTransaction),
+        // A stream may stay open as long as its consumer takes, so it reads
+        // through its own read-only connection instead of holding the lock
+        stream: <T>(sql: string, params: unknown[]) =>
+          pipe(
+            Stream.acquireRelease(
+              Effect.try({
+                try: () => new Sqlite(filename, { readonly: true, fileMustExist: true }),
+                catch: (cause) => new DatabaseError(`Failed to open database: ${filename}`, cause),
+              }),
+              (reader) => Effect.sync(() => reader.close())
+            ),
+            Stream.flatMap((reader) =>
+              Stream.acquireRelease(
+                Effect.try({
+                  try: () => reader.prepare(sql).iterate(...params.map(toSqlParam)) as IterableIterator<T>,
+                  catch: (cause) => new DatabaseError("Query failed", cause),
+                }),
+                (rows) => Effect.sync(() => rows.return?.())
+              )
+            ),
+            Stream.flatMap((rows) =>
+              Stream.repeatEffectChunkOption(
+                pipe(
+                  Effect.try({
+                    try: () => {
+                      const chunk: T[] = []
+                      for (let next = rows.next(); !next.done; next = rows.next()) {
+                        chunk.push(next.value)
+                        if (chunk.length === streamChunkSize) break
+                      }
+                      return chunk
+                    },
+                    catch: (cause) => Option.some(new DatabaseError("Query failed", cause)),
+                  }),
+                  Effect.flatMap((chunk) =>
+                    chunk.length === 0 ? Effect.fail(Option.none()) : Effect.succeed(Chunk.unsafeFromArray(chunk))
+                  )
+                )
+              )
+            ),
+            Stream.withSpan("db.stream", {
+              kind: "client",
+              attributes: { "db.system": "sqlite", "db.statement": sql },
+            })
+          ),
+      }
+    })
+  )
+
+/**
+ * Fail with a TimeoutError if an effect runs longer than `timeout`.
+ *
+ * ADVANTAGE: The timed-out effect is interrupted, so a statement still
+ * waiting for the connection gives up its place in the queue.
+ */
+const withTimeout = (operation: string, timeout: Duration.DurationInput) =>
+<A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E | TimeoutError, R> =>
+  Effect.timeoutFail(effect, {
+    duration: timeout,
+    onTimeout: () => new TimeoutError(operation, Duration.toMillis(timeout)),
+  })
+
+/**
+ * Wraps whichever Database is provided underneath with per-operation
+ * timeouts.
+ *
+ * Transactions are bounded by the timeouts of the statements inside them
+ * rather than as a whole. Timing out a finished transaction would report a
+ * committed write as failed.
+ */
+const DatabaseWithTimeouts = (timeouts: DatabaseTimeouts): Layer.Layer<Database, never, Database> =>
+  Layer.effect(
+    Database,
+    Effect.map(Database, (db) => ({
+      query: <T>(sql: string, params: unknown[]) =>
+        pipe(db.query<T>(sql, params), withTimeout("Database.query", timeouts.query)),
+      execute: (sql: string, params: unknown[]) =>
+        pipe(db.execute(sql, params), withTimeout("Database.execute", timeouts.execute)),
+      transaction: db.transaction,
+      inTransaction: db.inTransaction,
+      // A stream runs for as long as its consumer, so it has no timeout
+      stream: db.stream,
+    }))
+  )
+
+/**
+ * Wraps whichever Cache is provided underneath with per-operation timeouts.
+ */
+const CacheWithTimeouts = (timeouts: CacheTimeouts): Layer.Layer<Cache, never, Cache> =>
+  Layer.effect(
+    Cache,
+    Effect.map(Cache, (cache) => ({
+      get: <T>(key: string) => pipe(cache.get<T>(key), withTimeout("Cache.get", timeouts.get)),
+      set: <T>(key: string, value: T, ttlSeconds?: number) =>
+        pipe(cache.set(key, value, ttlSeconds), withTimeout("Cache.set", timeouts.set)),
+      delete: (key: string) => pipe(cache.delete(key), withTimeout("Cache.delete", timeouts.delete)),
+      stats: cache.stats,
+    }))
+  )
+
+interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  readonly failureThreshold: number
+  /** How long the circuit stays open before a trial call is let through */
+  readonly resetTimeout: Duration.DurationInput
+}
+
+/**
+ * The circuit status before and after one state update.
+ */
+type Transition = readonly [from: CircuitBreakerStatus, to: CircuitBreakerStatus]
+
+const defaultCircuitBreakerOptions: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeout: Duration.seconds(30),
+}
+
+/**
+ * Wraps whichever Cache is provided underneath with a circuit breaker, and
+ * provides CacheCircuitBreaker to report on it.
+ *
+ * While the circuit is open, reads are misses and writes are skipped,
+ * without calling the cache. A skipped invalidation can leave a stale entry
+ * until it expires, just as a failed one does.
+ *
+ * ADVANTAGE: Every state change is a single Ref.modify, so concurrent
+ * fibers can never both become the half-open trial call.
+ */
+const CacheWithCircuitBreaker = (
+  options: CircuitBreakerOptions
+): Layer.Layer<Cache | CacheCircuitBreaker, never, Cache | Logger> =>
+  Layer.effectContext(
+    Effect.gen(function* () {
+      const cache = yield* Cache
+      const logger = yield* Logger
+      const resetTimeoutMs = Duration.toMillis(options.resetTimeout)
+      const closed: CircuitBreakerStatus = { state: "closed", consecutiveFailures: 0, openedAt: Option.none() }
+      const status = yield* Ref.make(closed)
+
+      const logTransition = ([from, to]: Transition) =>
+        from.state === to.state
+          ? Effect.void
+          : logger.info("Cache circuit state changed", {
+              from: from.state,
+              to: to.state,
+              consecutiveFailures: to.consecutiveFailures,
+            })
+
+      // Whether a call may reach the cache, moving open to half-open once
+      // the reset timeout has passed
+      const acquire = Effect.flatMap(Clock.currentTimeMillis, (now) =>
+        pipe(
+          Ref.modify(status, (current): [[boolean, Transition], CircuitBreakerStatus] => {
+            switch (current.state) {
+              case "closed":
+                return [[true, [current, current]], current]
+              case "open": {
+                const openedAt = Option.getOrElse(current.openedAt, () => now)
+                if (now - openedAt < resetTimeoutMs) {
+                  return [[false, [current, current]], current]
+                }
+                const next: CircuitBreakerStatus = { ...current, state: "half-open" }
+                return [[true, [current, next]], next]
+              }
+              case "half-open":
+                // The trial call is still running
+                return [[false, [current, current]], current]
+            }
+          }),
+          Effect.flatMap(([allowed, transition]) => Effect.as(logTransition(transition), allowed))
+        )
+      )
+
+      const record = <A, E>(exit: Exit.Exit<A, E>) =>
+        Effect.flatMap(Clock.currentTimeMillis, (now) =>
+          pipe(
+            Ref.modify(status, (current): [Transition, CircuitBreakerStatus] => {
+              let next: CircuitBreakerStatus
+              if (Exit.isSuccess(exit)) {
+                next = closed
+              } else if (Cause.isInterruptedOnly(exit.cause)) {
+                // The caller gave up - that says nothing about the cache
+                next = current.state === "half-open" ? { ...current, state: "open" } : current
+              } else {
+                const consecutiveFailures = current.consecutiveFailures + 1
+                next = current.state === "half-open" || consecutiveFailures >= options.failureThreshold
+                  ? { state: "open", consecutiveFailures, openedAt: Option.some(now) }
+                  : { ...current, consecutiveFailures }
+              }
+              return [[current, next], next]
+            }),
+            Effect.flatMap(logTransition)
+          )
+        )
+
+      const protect = <A, E>(effect: Effect.Effect<A, E>, shortCircuited: A): Effect.Effect<A, E> =>
+        Effect.flatMap(acquire, (allowed) =>
+          allowed ? Effect.onExit(effect, record) : Effect.succeed(shortCircuited)
+        )
+
+      return pipe(
+        Context.make(Cache, {
+          get: <T>(key: string) => protect(cache.get<T>(key), Option.none<T>()),
+          set: <T>(key: string, value: T, ttlSeconds?: number) =>
+            protect(cache.set(key, value, ttlSeconds), undefined),
+          delete: (key: string) => protect(cache.delete(key), undefined),
+          stats: cache.stats,
+        }),
+        Context.add(CacheCircuitBreaker, { status: Ref.get(status) })
+      )
+    })
+  )
+
+/**
+ * Production Database backed by a local SQLite file.
+ */
+const DatabaseLive = Layer.unwrapEffect(
+  Effect.map(AppConfig, (config) =>
+    pipe(
+      DatabaseWithTimeouts(config.databaseTimeouts),
+      Layer.provide(DatabaseSqlite(config.databasePath))
+    )
+  )
+)
+
+/**
+ * In-process Cache with per-entry expiry and LRU eviction.
+ *
+ * ADVANTAGE: Expiry reads the time from the Effect Clock, so tests can
+ * advance it with TestClock instead of sleeping.
+ *
+ * A Map iterates in insertion order, so re-inserting an entry on every hit
+ * keeps the least recently used entry first in line for eviction.
+ */
+const CacheMemory = (options: {
+  readonly capacity: number
+  readonly defaultTtlSeconds?: number
+}): Layer.Layer<Cache> =>
+  Layer.sync(Cache, () => {
+    const entries = new Map<string, { readonly value: unknown; readonly expiresAt: number }>()
+    let hits = 0
+    let misses = 0
+    let evictions = 0
+
+    return {
+      get: <T>(key: string) =>
+        Effect.map(Clock.currentTimeMillis, (now) => {
+          const entry = entries.get(key)
+          entries.delete(key)
+
+          if (entry === undefined || entry.expiresAt <= now) {
+            misses++
+            return Option.none<T>()
+          }
+
+          entries.set(key, entry)
+          hits++
+          return Option.some(entry.value as T)
+        }),
+      set: <T>(key: string, value: T, ttlSeconds = options.defaultTtlSeconds) =>
+        Effect.map(Clock.currentTimeMillis, (now) => {
+          const expiresAt = ttlSeconds === undefined ? Infinity : now + ttlSeconds * 1000
+          entries.delete(key)
+          entries.set(key, { value, expiresAt })
+
+          for (const oldest of entries.keys()) {
+            if (entries.size <= options.capacity) break
+            entries.delete(oldest)
+            evictions++
+          }
+        }),
+      delete: (key: string) =>
+        Effect.sync(() => {
+          entries.delete(key)
+        }),
+      stats: Effect.sync(() => ({ hits, misses, evictions, size: entries.size })),
+    }
+  })
+
+/**
+ * Production Cache held in process memory.
  */
-const LoggerLive = Layer.succeed(Logger, {
-  info: (message, meta) =>
-    Console.log(`[INFO] ${message}`, meta ?? {}),
-  error: (message, error, meta) =>
-    Console.error(`[ERROR] ${message}`, error ?? "unknown", meta ?? {}),
-  debug: (message, meta) =>
-    Console.debug(`[DEBUG] ${message}`, meta ?? {}),
+const CacheLive = Layer.unwrapEffect(
+  Effect.map(AppConfig, (config) =>
+    pipe(
+      CacheWithCircuitBreaker(defaultCircuitBreakerOptions),
+      Layer.provide(CacheWithTimeouts(config.cache.timeouts)),
+      Layer.provide(
+        CacheMemory({
+          capacity: config.cache.capacity,
+          defaultTtlSeconds: Duration.toSeconds(config.cache.ttl),
+        })
+      )
+    )
+  )
+)
+
+/**
+ * SingleFlight backed by a map of pending Deferreds.
+ *
+ * The map is checked and updated without yielding, so two fibers can never
+ * both become the leader for the same key. The leader runs the effect in its
+ * own fiber (rather than a forked one) so that request batching still sees it.
+ */
+const SingleFlightLive = Layer.sync(SingleFlight, () => {
+  const inFlight = new Map<string, Deferred.Deferred<unknown, unknown>>()
+
+  const run = <A, E, R>(key: string, effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.fiberIdWith((fiberId) => {
+      const pending = inFlight.get(key)
+      if (pending !== undefined) {
+        // The leader for this key completes the Deferred with the same A and E
+        const result = Deferred.await(pending) as Effect.Effect<A, E>
+        return pipe(
+          // Wait as a blocked request with nothing to run, so a leader in the
+          // same batch (e.g. a duplicate id) can still have its query executed
+          Effect.blocked(RequestBlock.empty, result),
+          // The leader was interrupted: retry, possibly as the new leader
+          Effect.catchAllCause((cause) =>
+            Cause.isInterruptedOnly(cause) ? run(key, effect) : Effect.failCause(cause)
+          )
+        )
+      }
+
+      const deferred = Deferred.unsafeMake<unknown, unknown>(fiberId)
+      inFlight.set(key, deferred)
+
+      return pipe(
+        effect,
+        Effect.onExit((exit) =>
+          Effect.zipRight(
+            Effect.sync(() => inFlight.delete(key)),
+            Deferred.done(deferred, exit)
+          )
+        )
+      )
+    })
+
+  return { run }
 })
 
+const logLevelRank: Record<LogLevel, number> = { debug: 0, info: 1, error: 2 }
+
+/**
+ * Turn an error into plain JSON-friendly data, following its `cause` chain.
+ *
+ * Tagged errors are plain classes, so their fields are copied as-is; native
+ * Errors also contribute their non-enumerable name, message and stack.
+ */
+const serializeError = (error: unknown, depth = 0): unknown => {
+  if (typeof error !== "object" || error === null || depth > 5) {
+    return error
+  }
+
+  const fields: Record<string, unknown> = error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : {}
+  for (const [key, value] of Object.entries(error)) {
+    fields[key] = value
+  }
+  if ("cause" in error && error.cause !== undefined) {
+    fields.cause = serializeError(error.cause, depth + 1)
+  }
+  return fields
+}
+
+/**
+ * Logger writing one JSON line per entry, dropping entries below the
+ * configured log level.
+ *
+ * ADVANTAGE: Request-scoped context (request id, route, user id) is attached
+ * with Effect.annotateLogs where the request starts. The annotations live on
+ * the fiber, so every log call made while handling that request picks them
+ * up without any function in between passing them along.
+ */
+const LoggerLive = Layer.effect(
+  Logger,
+  Effect.map(AppConfig, ({ logLevel }) => {
+    const write = (
+      level: LogLevel,
+      message: string,
+      meta: Record<string, unknown> | undefined,
+      error?: unknown
+    ): Effect.Effect<void> =>
+      logLevelRank[level] < logLevelRank[logLevel]
+        ? Effect.void
+        : Effect.gen(function* () {
+            const now = yield* Clock.currentTimeMillis
+            const context = yield* Effect.logAnnotations
+
+            const line = JSON.stringify(
+              {
+                timestamp: new Date(now).toISOString(),
+                level,
+                message,
+                ...Object.fromEntries(context),
+                ...(meta === undefined ? {} : { meta }),
+                ...(error === undefined ? {} : { error: serializeError(error) }),
+              },
+              (_key, value) => (typeof value === "bigint" ? value.toString() : value)
+            )
+
+            yield* level === "error" ? Console.error(line) : Console.log(line)
+          })
+
+    return {
+      info: (message, meta) => write("info", message, meta),
+      error: (message, error, meta) => write("error", message, meta, error),
+      debug: (message, meta) => write("debug", message, meta),
+    }
+  })
+)
+
+/**
+ * Tracing to the file named by the traceFile setting, or no tracing at all.
+ */
+const TracingLive = Layer.unwrapEffect(
+  Effect.map(AppConfig, ({ traceFile }) =>
+    Option.match(traceFile, {
+      onNone: () => Layer.empty,
+      onSome: (path) => pipe(SpanTracer, Layer.provide(SpanExporterFile(path))),
+    })
+  )
+)
+
 /**
  * Test implementations that don't perform real I/O.
  */
 const DatabaseTest = Layer.succeed(Database, {
   query: <T>(_sql: string, _params: unknown[]) =>
-    Effect.succeed([{ id: "test", email: "test@test.com", name: "Test", createdAt: new Date() }] as T[]),
+    Effect.succeed([
+      { id: "test", email: "test@test.com", name: "Test", created_at: new Date().toISOString() },
+    ] as T[]),
   execute: (_sql: string, _params: unknown[]) =>
     Effect.succeed(undefined),
+  transaction: (effect) => effect,
+  inTransaction: Effect.succeed(false),
+  stream: <T>(_sql: string, _params: unknown[]) =>
+    Stream.make({ id: "test", email: "test@test.com", name: "Test", created_at: new Date().toISOString() } as T),
 })
 
-const CacheTest = Layer.succeed(Cache, {
-  get: <T>(_key: string) =>
-    Effect.succeed(Option.none<T>()),
-  set: <T>(_key: string, _value: T, _ttlSeconds?: number) =>
-    Effect.succeed(undefined),
-  delete: (_key: string) =>
-    Effect.succeed(undefined),
-})
+const CacheTest = pipe(
+  CacheWithCircuitBreaker(defaultCircuitBreakerOptions),
+  Layer.provide(CacheMemory({ capacity: 100 }))
+)
 
 const LoggerTest = Layer.succeed(Logger, {
   info: (_message, _meta) => Effect.succeed(undefined),
@@ -609,18 +2978,28 @@ const LoggerTest = Layer.succeed(Logger, {
   debug: (_message, _meta) => Effect.succeed(undefined),
 })
 
+const TracingTest = pipe(SpanTracer, Layer.provideMerge(SpanExporterMemory))
+
 /**
  * Compose all layers for production.
  * 
  * ADVANTAGE: Dependencies are resolved at compile time.
  * The type system ensures all required services are provided.
  */
-const AppLayerLive = Layer.mergeAll(DatabaseLive, CacheLive, LoggerLive)
+const AppLayerLive = pipe(
+  Layer.mergeAll(DatabaseLive, CacheLive, SingleFlightLive, TracingLive),
+  Layer.provideMerge(LoggerLive),
+  Layer.provideMerge(AppConfigLive)
+)
 
 /**
  * Compose all layers for testing.
  */
-const AppLayerTest = Layer.mergeAll(DatabaseTest, CacheTest, LoggerTest)
+const AppLayerTest = pipe(
+  Layer.mergeAll(DatabaseTest, CacheTest, SingleFlightLive, TracingTest),
+  Layer.provideMerge(LoggerTest),
+  Layer.provideMerge(AppConfigTest)
+)
 
 // ============================================================================
 // Application Entry Point
@@ -633,7 +3012,7 @@ const AppLayerTest = Layer.mergeAll(DatabaseTest, CacheTest, LoggerTest)
  * at compile time, not runtime.
  */
 const runWithLive = <A, E>(
-  program: Effect.Effect<A, E, Database | Cache | Logger>
+  program: Effect.Effect<A, E, Database | Cache | Logger | SingleFlight | AppConfig>
 ): Promise<A> =>
   pipe(
     program,
@@ -642,7 +3021,7 @@ const runWithLive = <A, E>(
   )
 
 const runWithTest = <A, E>(
-  program: Effect.Effect<A, E, Database | Cache | Logger>
+  program: Effect.Effect<A, E, Database | Cache | Logger | SingleFlight | AppConfig>
 ): Promise<A> =>
   pipe(
     program,
@@ -660,8 +3039,8 @@ const exampleProgram = Effect.gen(function* () {
   // Create a user
   const user = yield* pipe(
     registerUser({ email: "john@example.com", name: "John Doe" }),
-    Effect.catchTag("ValidationError", (e) => 
-      Effect.succeed({ id: "fallback", email: "", name: e.message, createdAt: new Date() })
+    Effect.catchTag("EmailAlreadyInUseError", (e) => 
+      Effect.succeed({ id: "fallback", email: e.email, name: "Existing user", createdAt: new Date() })
     )
   )
   
@@ -691,46 +3070,163 @@ export {
   User,
   CreateUserInput,
   UpdateUserInput,
+  ChangeEmailInput,
+  RenameUserInput,
+  UserCursor,
+  UserCursorFromString,
+  UserIdParams,
+  ListUsersQuery,
+  FileFormat,
+  ExportUsersQuery,
+  ImportUsersQuery,
+  ListUsersOptions,
+  UserPage,
   UserProfile,
   UserError,
+  BatchItemError,
+  BatchItemSuccess,
+  BatchItemFailure,
+  BatchItemResult,
+  BatchSummary,
+  BatchResult,
+  BatchOptions,
+  ImportSkipReason,
+  ImportFailureReason,
+  ImportRowCreated,
+  ImportRowSkipped,
+  ImportRowFailed,
+  ImportRowResult,
+  ImportSummary,
+  ImportReport,
+  ImportOptions,
+  RetryPolicy,
+  CacheStats,
+  LogLevel,
+  CircuitState,
+  CircuitBreakerStatus,
+  CircuitBreakerOptions,
+  DatabaseTimeouts,
+  CacheTimeouts,
+  ExportedSpan,
+  HttpRequest,
+  HttpResponse,
+  HttpStreamResponse,
+  DependencyCheck,
+  ReadinessStatus,
+  HealthReport,
   
   // Errors
+  FieldError,
   UserNotFoundError,
   DatabaseError,
+  UniqueConstraintError,
   ValidationError,
+  ValidationErrors,
+  EmailAlreadyInUseError,
   CacheError,
+  DecodeError,
+  ConfigFileError,
+  TimeoutError,
+  MalformedRowError,
+  DuplicateRowError,
   
   // Services
   Database,
   Cache,
   Logger,
+  SingleFlight,
+  CacheCircuitBreaker,
+  AppConfig,
+  SpanExporter,
+  RecordedSpans,
+  
+  // Metrics
+  cacheHitsTotal,
+  cacheMissesTotal,
+  dbQueryDurationSeconds,
+  userErrorsTotal,
+  httpResponsesTotal,
+  countErrorByTag,
+  prometheusMetrics,
   
   // Repository functions
+  GetUserById,
+  GetUserByIdResolver,
   findUserById,
+  findUserByIdInTransaction,
   findUserByEmail,
+  listUsers,
+  streamUsers,
   createUser,
   updateUser,
   deleteUser,
   
   // Service functions
   getUserProfile,
+  validateAll,
   registerUser,
   changeEmail,
+  renameUser,
+  replaceUser,
   
   // HTTP handlers
+  mapErrorToResponse,
+  decodeBody,
+  decodeParams,
+  decodeQuery,
+  listUsersHandler,
+  exportUsersHandler,
+  importUsersHandler,
   getUserHandler,
   createUserHandler,
   updateEmailHandler,
+  renameUserHandler,
+  updateUserHandler,
+  deleteUserHandler,
+  healthHandler,
+  probe,
+  checkDependencies,
+  healthzHandler,
+  readyzHandler,
   
   // Batch processing
   processUserBatch,
   processWithConcurrencyLimit,
+  defaultRetryPolicy,
+  isTransientError,
+  retryTransient,
   processWithRetry,
   
+  // Bulk import
+  importUsers,
+  
+  // Configuration
+  appConfig,
+  configProvider,
+  AppConfigLive,
+  AppConfigTest,
+  
+  // Tracing
+  SpanTracer,
+  SpanExporterMemory,
+  SpanExporterFile,
+  TracingLive,
+  TracingTest,
+  
   // Layers
+  DatabaseSqlite,
+  defaultDatabaseTimeouts,
+  defaultCacheTimeouts,
+  DatabaseWithTimeouts,
+  CacheWithTimeouts,
+  defaultCircuitBreakerOptions,
+  CacheWithCircuitBreaker,
   DatabaseLive,
+  CacheMemory,
   CacheLive,
   LoggerLive,
+  SingleFlightLive,
+  serializeError,
   DatabaseTest,
   CacheTest,
   LoggerTest,